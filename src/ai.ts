@@ -1,6 +1,8 @@
 import OpenAI from "openai";
-import { searchWeb, getFunnyImage, extractUrlContent } from "./tools";
-import { addFact, deleteFact, changeReputation, updateRelationship, getRelationships, getAllUsersInChat, getUser, updateChatSummary } from "./db";
+import { updateChatSummary } from "./db";
+import { getToolSchemas, listToolNames, runTool, ToolArgs, ToolContext, ReminderHandler } from "./registry";
+import { createChatCompletion } from "./providers";
+import "./toolset";
 
 // Response type for generateResponse
 export type BotResponse = {
@@ -11,165 +13,20 @@ export type BotResponse = {
   };
 };
 
-const client = new OpenAI({
-  baseURL: process.env.OPENAI_BASE_URL || "http://localhost:1234/v1",
-  apiKey: process.env.OPENAI_API_KEY || "sk-placeholder",
-  fetch: async (url: string | URL | Request, init?: RequestInit) => {
-    console.log(`[AI Request] ${init?.method || 'GET'} ${url}`);
-    
-    // Add headers to mimic a browser to bypass Cloudflare
-    const headers = new Headers(init?.headers);
-    headers.set("User-Agent", "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36");
-    headers.set("Referer", "https://aio.ooy.cz/");
-    headers.set("Origin", "https://aio.ooy.cz");
-    headers.set("Accept", "application/json");
-
-    const res = await fetch(url, { ...init, headers });
-    console.log(`[AI Response] ${res.status} ${res.statusText}`);
-    return res;
-  }
-});
-
-// Tool Definitions
-const tools: OpenAI.Chat.Completions.ChatCompletionTool[] = [
-  {
-    type: "function",
-    function: {
-      name: "search_web",
-      description: "Search the internet for current events, facts, or specific information.",
-      parameters: {
-        type: "object",
-        properties: {
-          query: { type: "string", description: "The search query" },
-        },
-        required: ["query"],
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "get_funny_image",
-      description: "Get a funny image, meme, gif, or picture. Use this when user asks for memes, pictures, images, gifs, or wants something visual/funny. Always use this for requests like 'скинь мем', 'покажи картинку', 'мемчик', etc.",
-      parameters: {
-        type: "object",
-        properties: {
-          keyword: { type: "string", description: "Keyword for the image (e.g., 'cat', 'fail', 'morning', 'funny', 'meme')." },
-        },
-        required: ["keyword"],
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "extract_url_content",
-      description: "Extract and summarize content from a webpage URL. Useful for getting information from articles, news, or any web page.",
-      parameters: {
-        type: "object",
-        properties: {
-          url: { type: "string", description: "The URL to extract content from" },
-        },
-        required: ["url"],
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "save_memory",
-      description: "Save a specific fact about the user. IMPORTANT: Decide how long to remember this. For permanent things (name, personality) don't set ttl. For temporary things (plans for tonight, current mood, 'going to shop') set ttl_seconds (e.g., 3600 for 1h, 86400 for 1 day).",
-      parameters: {
-        type: "object",
-        properties: {
-          fact: { type: "string", description: "The clear, concise fact to remember." },
-          ttl_seconds: { type: "number", description: "How long to remember this in seconds. Omit for permanent storage." },
-        },
-        required: ["fact"],
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "set_reminder",
-      description: "Set a reminder for the user. Use VERY sparingly - only for truly important things they specifically asked to remember. IMPORTANT: 'text' must be a natural, casual message you'll send later (e.g., 'Йо, как дела с тем проектом?'), NOT a description.",
-      parameters: {
-        type: "object",
-        properties: {
-          seconds: { type: "number", description: "Delay in seconds (minimum 3600 = 1 hour)." },
-          text: { type: "string", description: "The casual message to send later (1-2 sentences max)." },
-        },
-        required: ["seconds", "text"],
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "delete_memory",
-      description: "Delete a specific fact about the user from memory. Use this if the information is outdated, incorrect, or the user asks to forget it.",
-      parameters: {
-        type: "object",
-        properties: {
-          fact: { type: "string", description: "The exact fact to delete (as it was saved)." },
-        },
-        required: ["fact"],
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "change_user_reputation",
-      description: "Change a user's reputation (loyalty/friendship with the bot).",
-      parameters: {
-        type: "object",
-        properties: {
-          user_id: { type: "string", description: "The ID of the user." },
-          amount: { type: "number", description: "Amount to change (e.g., +5, -10)." },
-          reason: { type: "string", description: "Reason for the change." },
-        },
-        required: ["user_id", "amount", "reason"],
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "update_relationship",
-      description: "Update the relationship/affection between two users in the chat. Bot can observe their interaction and update it.",
-      parameters: {
-        type: "object",
-        properties: {
-          user_id_1: { type: "string", description: "First user's ID." },
-          user_id_2: { type: "string", description: "Second user's ID." },
-          affection_delta: { type: "number", description: "Change in affection (-20 to 20)." },
-          status: { type: "string", description: "New status description (optional, e.g., 'crush', 'rivals')." },
-        },
-        required: ["user_id_1", "user_id_2", "affection_delta"],
-      },
-    },
-  },
-  {
-    type: "function",
-    function: {
-      name: "get_chat_info",
-      description: "Get information about all users in the chat and their relationships.",
-      parameters: {
-        type: "object",
-        properties: {},
-      },
-    },
-  },
-];
+/**
+ * Rough size of the context in characters. Inlined images count as a fixed amount,
+ * their base64 data says nothing about the tokens they cost.
+ */
+function contextSize(value: unknown): number {
+  return JSON.stringify(value, (key, v) => key === "image_url" ? "[image]".repeat(100) : v).length;
+}
 
 export async function summarizeHistory(
   chatId: number,
   messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]
 ) {
     // Проверяем по количеству символов, а не сообщений
-    const totalChars = JSON.stringify(messages).length;
+    const totalChars = contextSize(messages);
     if (totalChars < 15000) return false; // Возвращаем false если суммаризация не нужна
     
     console.log(`[AI][${chatId}] Summarizing conversation (${totalChars} chars)...`);
@@ -186,8 +43,7 @@ export async function summarizeHistory(
             { role: "system" as const, content: summaryPrompt }
         ];
         
-        const response = await client.chat.completions.create({
-            model: "qwen/qwen3-next-80b-a3b-instruct",
+        const response = await createChatCompletion("summary", {
             messages: summaryMessages,
             temperature: 0.3,
             max_tokens: 4000,
@@ -209,10 +65,11 @@ export async function generateResponse(
   messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
   userId: number,
   chatId: number,
-  onReminder?: (seconds: number, text: string) => Promise<void>,
+  onReminder?: ReminderHandler,
   temperature: number = 0.7,
   depth: number = 0,
-  background: boolean = false
+  background: boolean = false,
+  disabledTools: string[] = []
 ): Promise<BotResponse | null> {
   const startTime = Date.now();
   console.log(`[AI][${chatId}] generateResponse called with userId: ${userId}, depth: ${depth}, background: ${background}`);
@@ -239,7 +96,7 @@ export async function generateResponse(
 
   // --- Context Management: Summarization and Truncation ---
   const MAX_CHARS = 40000; // Rough limit for context window
-  let totalChars = JSON.stringify(messages).length;
+  let totalChars = contextSize(messages);
   
   // Если контекст очень большой, сначала попробуем суммаризацию (только на первом уровне рекурсии)
   if (totalChars > 60000 && depth === 0) {
@@ -250,7 +107,7 @@ export async function generateResponse(
           const systemMsg = messages[0]?.role === 'system' ? messages[0] : null;
           const recentMessages = messages.slice(-10);
           messages = systemMsg ? [systemMsg, ...recentMessages] : recentMessages;
-          totalChars = JSON.stringify(messages).length;
+          totalChars = contextSize(messages);
           console.log(`[AI][${chatId}] Context reduced to ${messages.length} messages (${totalChars} chars) after summarization`);
       }
   }
@@ -261,29 +118,28 @@ export async function generateResponse(
       const systemMsg = messages[0]?.role === 'system' ? messages[0] : null;
       const others = messages.slice(systemMsg ? 1 : 0);
       
-      let currentChars = systemMsg ? JSON.stringify(systemMsg).length : 0;
+      let currentChars = systemMsg ? contextSize(systemMsg) : 0;
       const kept: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
       
       for (let i = others.length - 1; i >= 0; i--) {
           const msg = others[i];
-          const msgLen = JSON.stringify(msg).length;
+          const msgLen = contextSize(msg);
           if (currentChars + msgLen > MAX_CHARS) break;
           kept.unshift(msg);
           currentChars += msgLen;
       }
       
       messages = systemMsg ? [systemMsg, ...kept] : kept;
-      totalChars = JSON.stringify(messages).length;
+      totalChars = contextSize(messages);
       console.log(`[AI][${chatId}] Truncated context to ${messages.length} messages (${totalChars} chars)`);
   }
 
   try {
     console.log(`[AI][${chatId}] Sending request (Messages: ${messages.length}, Size: ${totalChars} chars, Depth: ${depth})`);
     
-    const response = await client.chat.completions.create({
-      model: "qwen/qwen3-next-80b-a3b-instruct",
+    const response = await createChatCompletion(background ? "passive" : "chat", {
       messages: messages,
-      tools: tools,
+      tools: getToolSchemas(disabledTools),
       tool_choice: "auto",
       temperature: temperature,
       max_tokens: 4000, // Ограничение на количество токенов для ответа
@@ -342,7 +198,7 @@ export async function generateResponse(
     }
 
     // Format 3: function_name(arg="value", arg2="value2")
-    const knownTools = ['get_funny_image', 'search_web', 'extract_url_content', 'save_memory', 'set_reminder', 'delete_memory', 'change_user_reputation', 'update_relationship', 'get_chat_info'];
+    const knownTools = listToolNames();
     while ((match = toolRegex3.exec(content)) !== null) {
         try {
             const functionName = match[1];
@@ -389,89 +245,39 @@ export async function generateResponse(
       // Add the assistant's tool-call message to history to maintain context
       messages.push({ ...message, content: content || null, tool_calls: toolCalls as any });
 
+      // A photo a tool attached at this depth, sent with the final answer
+      let photoUrl: string | null = null;
+      const toolContext: ToolContext = {
+        chatId,
+        userId,
+        onReminder,
+        attachPhoto: (url: string) => {
+          photoUrl = url;
+        },
+      };
+
       for (const toolCall of toolCalls) {
         if (toolCall.type !== 'function') continue;
 
         const rawFnName = toolCall.function.name;
-        // Normalize name: lowercase and remove underscores for comparison
-        const normFnName = rawFnName.toLowerCase().replace(/_/g, "");
-        const args = JSON.parse(toolCall.function.arguments);
-        let result: string;
+        let args: ToolArgs;
+        try {
+          args = JSON.parse(toolCall.function.arguments || "{}");
+          if (typeof args !== "object" || args === null || Array.isArray(args)) throw new Error("expected an object");
+        } catch (e) {
+          console.warn(`[AI][${chatId}] Malformed arguments for ${rawFnName}: ${toolCall.function.arguments}`);
+          messages.push({
+            tool_call_id: (toolCall as any).id,
+            role: "tool",
+            content: `Error: Arguments are not valid JSON: ${(e as Error).message}`,
+          });
+          continue;
+        }
 
-        console.log(`[AI][${chatId}] Tool Call: ${rawFnName} (norm: ${normFnName})`, args);
+        console.log(`[AI][${chatId}] Tool Call: ${rawFnName}`, args);
         const toolStartTime = Date.now();
 
-        if (normFnName === "searchweb") {
-          result = await searchWeb(args.query || args.keyword || args.q);
-        } else if (normFnName === "getfunnyimage") {
-          const imageResult = await getFunnyImage(args.keyword || args.query || args.q);
-          
-          // Check if result is JSON (special photo format)
-          try {
-            const photoData = JSON.parse(imageResult);
-            if (photoData.type === "photo" && photoData.url) {
-              // Store photo info for later use, but let AI generate caption
-              (messages as any).__photoToSend = {
-                url: photoData.url
-              };
-              result = `Found funny image for "${args.keyword || args.query || args.q}". Photo will be sent.`;
-            } else {
-              result = imageResult;
-            }
-          } catch {
-            // Not JSON, treat as regular text
-            result = imageResult;
-          }
-        } else if (normFnName === "extracturlcontent") {
-          result = await extractUrlContent(args.url);
-        } else if (normFnName === "savememory") {
-          const ttl = args.ttl_seconds || args.ttl || args.duration;
-          console.log(`[AI][${chatId}] Saving memory for userId ${userId}: ${args.fact || args.memory || args.text}`);
-          await addFact(userId, args.fact || args.memory || args.text, ttl);
-          result = `Memory saved: ${args.fact || args.memory || args.text} (TTL: ${ttl || 'inf'})`;
-        } else if (normFnName === "deletememory") {
-          await deleteFact(userId, args.fact || args.memory || args.text);
-          result = `Memory deleted: ${args.fact || args.memory || args.text}`;
-        } else if (normFnName === "setreminder") {
-          const seconds = args.seconds || args.time || args.delay;
-          const text = args.text || args.message || args.reminder;
-          
-          // Минимум 1 час для напоминаний
-          if (seconds < 3600) {
-            result = `Error: Minimum reminder time is 1 hour (3600 seconds). Got: ${seconds}`;
-          } else if (onReminder && typeof seconds === 'number' && text) {
-             await onReminder(seconds, text);
-             result = `Reminder set for ${Math.round(seconds/3600)} hours.`;
-          } else {
-             result = `Error: Missing parameters for reminder (seconds: ${seconds}, text: ${text})`;
-          }
-        } else if (normFnName === "changeuserreputation") {
-            const targetId = parseInt(args.user_id);
-            if (isNaN(targetId)) {
-                result = `Error: user_id must be a numeric string. Got: ${args.user_id}`;
-            } else {
-                await changeReputation(targetId, args.amount);
-                result = `Reputation of user ${targetId} changed by ${args.amount}. Reason: ${args.reason}`;
-            }
-        } else if (normFnName === "updaterelationship") {
-            const id1 = parseInt(args.user_id_1);
-            const id2 = parseInt(args.user_id_2);
-            if (isNaN(id1) || isNaN(id2)) {
-                result = `Error: user_id_1 and user_id_2 must be numeric strings.`;
-            } else {
-                await updateRelationship(chatId, id1, id2, args.affection_delta, args.status);
-                result = `Relationship between ${id1} and ${id2} updated (delta: ${args.affection_delta}).`;
-            }
-        } else if (normFnName === "getchatinfo") {
-            const users = await getAllUsersInChat(chatId);
-            const rels = await getRelationships(chatId);
-            result = JSON.stringify({
-                users: users.map(u => ({ id: u.id, name: u.first_name, username: u.username, reputation: u.reputation })),
-                relationships: rels.map(r => ({ user1: r.user_id_1, user2: r.user_id_2, affection: r.affection, status: r.status }))
-            });
-        } else {
-          result = "Unknown tool.";
-        }
+        let result = await runTool(rawFnName, args, toolContext, disabledTools);
 
         const toolDuration = Date.now() - toolStartTime;
         console.log(`[AI][${chatId}] Tool Finish: ${rawFnName} in ${toolDuration}ms`);
@@ -490,23 +296,15 @@ export async function generateResponse(
       }
 
       // Recursively call for the final answer after tool outputs
-      return await generateResponse(messages, userId, chatId, onReminder, temperature, depth + 1, background);
+      const answer = await generateResponse(messages, userId, chatId, onReminder, temperature, depth + 1, background, disabledTools);
+      if (!photoUrl || answer?.photo) return answer;
+      // Use AI-generated text as caption
+      return { photo: { url: photoUrl, caption: answer?.text || undefined } };
     }
 
     const finalResponse = content || message.content;
     console.log(`[AI][${chatId}] Final response (depth: ${depth}): ${finalResponse ? finalResponse.substring(0, 100) + '...' : 'null'}`);
-    
-    // Check if we have a photo to send
-    const photoToSend = (messages as any).__photoToSend;
-    if (photoToSend) {
-      return {
-        photo: {
-          url: photoToSend.url,
-          caption: finalResponse || undefined  // Use AI-generated text as caption
-        }
-      };
-    }
-    
+
     return finalResponse ? { text: finalResponse } : null;
   } catch (error) {
     console.error(`[AI][${chatId}] Error at depth ${depth}:`, error);
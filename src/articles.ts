@@ -0,0 +1,208 @@
+import { parseHTML } from "linkedom";
+import { Readability } from "@mozilla/readability";
+import * as iconv from "iconv-lite";
+
+// --- Article Extraction ---
+// extract_url_content turns a web page into readable text: the raw bytes are decoded with
+// the page's charset, parsed into a DOM, and Readability picks the main content (falling
+// back to the page body without navigation). Metadata comes from OpenGraph/meta tags and
+// JSON-LD. Everything here is pure, so saved HTML files are enough to check a page.
+
+export type Article = {
+  url: string;
+  title?: string;
+  description?: string;
+  siteName?: string;
+  author?: string;
+  published?: string;
+  image?: string;
+  text: string;
+};
+
+const MIN_ARTICLE_CHARS = 200; // Readability results shorter than this are usually menus or cookie banners
+const BLOCK_TAGS = new Set([
+  "p", "div", "section", "article", "main", "header", "footer", "aside", "blockquote", "pre", "figure",
+  "figcaption", "table", "tr", "ul", "ol", "dl", "dt", "dd", "h1", "h2", "h3", "h4", "h5", "h6", "hr",
+]);
+const SKIPPED_TAGS = new Set(["script", "style", "noscript", "template", "svg", "iframe", "form", "button", "select"]);
+const BOILERPLATE_SELECTOR = "nav, header, footer, aside, [role=navigation], [role=banner], [role=contentinfo], [aria-hidden=true]";
+const ARTICLE_TYPES = ["Article", "NewsArticle", "BlogPosting", "Report", "ScholarlyArticle", "TechArticle", "WebPage", "Recipe", "Product"];
+
+// --- Decoding ---
+
+function normalizeCharset(charset?: string | null): string | null {
+  const name = charset?.trim().replace(/^["']|["']$/g, "").toLowerCase();
+  return name && iconv.encodingExists(name) ? name : null;
+}
+
+/**
+ * Decodes a page: charset from the Content-Type header, then a BOM, then <meta charset>
+ * (or http-equiv) in the first bytes; UTF-8 otherwise
+ */
+export function decodeHtml(body: Buffer, contentType?: string | null): string {
+  let charset = normalizeCharset(contentType?.match(/charset=([^;]+)/i)?.[1]);
+
+  if (!charset) {
+    if (body[0] === 0xef && body[1] === 0xbb && body[2] === 0xbf) charset = "utf-8";
+    else if (body[0] === 0xff && body[1] === 0xfe) charset = "utf-16le";
+    else if (body[0] === 0xfe && body[1] === 0xff) charset = "utf-16be";
+  }
+  if (!charset) {
+    // Meta tags are ASCII in every charset a page declares this way
+    const head = body.subarray(0, 4096).toString("latin1");
+    charset = normalizeCharset(
+      head.match(/<meta[^>]+charset\s*=\s*["']?([\w-]+)/i)?.[1]
+    );
+  }
+
+  return iconv.decode(body, charset || "utf-8");
+}
+
+// --- Text ---
+
+function collapse(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Plain text of a DOM node with paragraphs, list items and headings on their own lines
+ */
+export function nodeToText(root: any): string {
+  let out = "";
+
+  const walk = (node: any) => {
+    if (node.nodeType === 3) {
+      out += node.textContent.replace(/\s+/g, " ");
+      return;
+    }
+    if (node.nodeType !== 1) return;
+
+    const tag = node.tagName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) return;
+    if (tag === "br") {
+      out += "\n";
+      return;
+    }
+    if (tag === "img") {
+      const alt = collapse(node.getAttribute("alt") || "");
+      if (alt) out += ` [картинка: ${alt}] `;
+      return;
+    }
+
+    const block = BLOCK_TAGS.has(tag);
+    if (block) out += "\n\n";
+    if (tag === "li") out += "\n- ";
+    if (/^h[1-6]$/.test(tag)) out += "#".repeat(Number(tag[1])) + " ";
+    if (tag === "td" || tag === "th") out += " | ";
+
+    for (const child of node.childNodes) walk(child);
+    if (block) out += "\n\n";
+  };
+  walk(root);
+
+  return out
+    .split("\n")
+    .map(line => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+// --- Metadata ---
+
+function metaContent(document: any, ...keys: string[]): string | undefined {
+  for (const key of keys) {
+    const el = document.querySelector(`meta[property="${key}"], meta[name="${key}"], meta[itemprop="${key}"]`);
+    const value = collapse(el?.getAttribute("content") || "");
+    if (value) return value;
+  }
+  return undefined;
+}
+
+function jsonLdTypes(item: any): string[] {
+  const type = item?.["@type"];
+  return Array.isArray(type) ? type : type ? [type] : [];
+}
+
+function jsonLdName(value: any): string | undefined {
+  if (!value) return undefined;
+  if (typeof value === "string") return collapse(value) || undefined;
+  if (Array.isArray(value)) return value.map(jsonLdName).filter(Boolean).join(", ") || undefined;
+  return typeof value.name === "string" ? collapse(value.name) || undefined : undefined;
+}
+
+/**
+ * The JSON-LD object describing the page itself (an Article and the like), if any
+ */
+function findJsonLd(document: any): any {
+  const items: any[] = [];
+  for (const script of document.querySelectorAll('script[type="application/ld+json"]')) {
+    try {
+      const data = JSON.parse(script.textContent || "");
+      for (const item of Array.isArray(data) ? data : [data]) {
+        items.push(item, ...(Array.isArray(item?.["@graph"]) ? item["@graph"] : []));
+      }
+    } catch {
+      // Broken JSON-LD is common, the meta tags still work
+    }
+  }
+  return items.find(item => jsonLdTypes(item).some(t => ARTICLE_TYPES.includes(t)) && (item.headline || item.name))
+    ?? items.find(item => item?.headline);
+}
+
+function extractMetadata(document: any, url: string): Omit<Article, "text"> {
+  const ld = findJsonLd(document);
+  const image = metaContent(document, "og:image", "twitter:image")
+    ?? (typeof ld?.image === "string" ? ld.image : ld?.image?.url ?? (typeof ld?.image?.[0] === "string" ? ld.image[0] : undefined));
+
+  return {
+    url,
+    title: metaContent(document, "og:title", "twitter:title")
+      ?? jsonLdName(ld?.headline ?? ld?.name)
+      ?? (collapse(document.querySelector("title")?.textContent || "") || undefined),
+    description: metaContent(document, "og:description", "description", "twitter:description")
+      ?? jsonLdName(ld?.description),
+    siteName: metaContent(document, "og:site_name", "application-name") ?? jsonLdName(ld?.publisher),
+    author: jsonLdName(ld?.author) ?? metaContent(document, "author", "article:author"),
+    published: metaContent(document, "article:published_time", "datePublished") ?? jsonLdName(ld?.datePublished),
+    image: image ? absoluteUrl(image, url) : undefined,
+  };
+}
+
+function absoluteUrl(href: string, base: string): string {
+  try {
+    return new URL(href, base).toString();
+  } catch {
+    return href;
+  }
+}
+
+// --- Extraction ---
+
+/**
+ * Main text and metadata of an HTML page
+ */
+export function extractArticle(html: string, url: string): Article {
+  const { document } = parseHTML(html);
+  const metadata = extractMetadata(document, url);
+
+  // Readability rewrites the document, so the fallback works on a fresh copy
+  let text = "";
+  try {
+    const parsed = new Readability(parseHTML(html).document as unknown as Document, { serializer: nodeToText }).parse();
+    if (parsed?.content && parsed.content.length >= MIN_ARTICLE_CHARS) {
+      text = parsed.content;
+      metadata.author ??= parsed.byline ? collapse(parsed.byline) : undefined;
+      metadata.title ??= parsed.title ?? undefined;
+    }
+  } catch (e) {
+    console.warn(`[Article] Readability failed for ${url}:`, (e as Error).message);
+  }
+
+  if (!text && document.body) {
+    for (const el of document.querySelectorAll(BOILERPLATE_SELECTOR)) el.remove();
+    text = nodeToText(document.body);
+  }
+
+  return { ...metadata, text };
+}
@@ -1,13 +1,25 @@
 import "reflect-metadata";
-import { DataSource, Entity, PrimaryColumn, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, LessThanOrEqual } from "typeorm";
+import { DataSource, Entity, PrimaryColumn, Column, PrimaryGeneratedColumn, CreateDateColumn, UpdateDateColumn, ManyToOne, JoinColumn, LessThan, LessThanOrEqual, Index, In, IsNull, Not, ObjectLiteral, SelectQueryBuilder, QueryFailedError } from "typeorm";
 import * as path from "path";
 import * as fs from "fs";
+import type { Recurrence } from "./recurrence";
+import { DEFAULT_TIMEZONE } from "./time";
+
+// --- Column Helpers ---
+
+// bigint columns come back as strings from MySQL/Postgres but as numbers from SQLite.
+// Normalize to strings everywhere so ids compare the same on every driver.
+const bigintToString = {
+    to: (value: any) => value,
+    from: (value: any) => (value === null || value === undefined ? value : String(value)),
+};
+const BIGINT = { type: "bigint" as const, transformer: bigintToString };
 
 // --- Entities ---
 
 @Entity("users")
 export class User {
-    @PrimaryColumn({ type: "bigint" })
+    @PrimaryColumn(BIGINT)
     id!: string; // TypeORM maps BigInt to string to avoid JS precision loss
 
     @Column({ type: "varchar", nullable: true })
@@ -18,15 +30,35 @@ export class User {
 
     @Column({ type: "int", default: 0 })
     reputation!: number;
+
+    @Column({ type: "varchar", length: 64, nullable: true })
+    timezone?: string | null; // IANA name, e.g. "Europe/Moscow"
+
+    @Column({ type: Date, nullable: true })
+    facts_compacted_at?: Date | null; // Last run of the fact compaction job for this user
 }
 
+// Where a fact may show up: "private" - only in one-on-one chats (the subject's own, or the one
+// where it was learned), "chat" - only in the chat where it was learned, "global" - everywhere
+export type FactVisibility = "private" | "chat" | "global";
+export const FACT_VISIBILITIES: FactVisibility[] = ["private", "chat", "global"];
+
 @Entity("facts")
 export class Fact {
     @PrimaryGeneratedColumn()
     id!: number;
 
-    @Column({ type: "bigint" })
-    user_id!: string;
+    @Column(BIGINT)
+    user_id!: string; // Who the fact is about
+
+    @Column({ ...BIGINT, nullable: true })
+    reporter_id?: string | null; // Who told it; null for facts saved before this was tracked
+
+    @Column({ ...BIGINT, nullable: true })
+    chat_id?: string | null; // Where it was learned; null for facts saved before this was tracked
+
+    @Column({ type: "varchar", length: 10, default: "global" })
+    visibility!: FactVisibility;
 
     @Column({ type: "text" })
     fact!: string;
@@ -34,23 +66,53 @@ export class Fact {
     @CreateDateColumn()
     created_at!: Date;
 
-    @Column({ type: "datetime", nullable: true })
-    expires_at?: Date;
+    @Column({ type: Date, nullable: true })
+    expires_at?: Date | null;
 
     @ManyToOne(() => User)
     @JoinColumn({ name: "user_id" })
     user?: User;
 }
 
+/**
+ * Audit trail of fact consolidation: every fact that was dropped as a duplicate,
+ * merged into another one or superseded by a newer, contradicting fact.
+ */
+@Entity("fact_revisions")
+@Index(["user_id"])
+export class FactRevision {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column(BIGINT)
+    user_id!: string;
+
+    @Column({ type: "varchar", length: 20 })
+    action!: string; // "duplicate", "merged" or "superseded"
+
+    @Column({ type: "text" })
+    old_fact!: string;
+
+    @Column({ type: "text", nullable: true })
+    new_fact?: string | null; // The text that replaced it
+
+    @Column({ type: "int", nullable: true })
+    fact_id?: number | null; // The fact that replaced it (may be gone by now)
+
+    @CreateDateColumn()
+    created_at!: Date;
+}
+
 @Entity("history")
+@Index(["chat_id", "id"]) // A chat's latest messages: history in prompts, recall candidates
 export class History {
     @PrimaryGeneratedColumn()
     id!: number;
 
-    @Column({ type: "bigint" })
+    @Column(BIGINT)
     chat_id!: string;
 
-    @Column({ type: "bigint", nullable: true })
+    @Column({ ...BIGINT, nullable: true })
     user_id?: string;
 
     @Column({ type: "varchar", length: 50 })
@@ -60,24 +122,62 @@ export class History {
     name?: string;
 
     @Column({ type: "text" })
-    content!: string;
+    content!: string; // Media is stored as a text descriptor, e.g. "[фото] caption"
+
+    @Column({ type: "varchar", length: 255, nullable: true })
+    image_file_id?: string | null; // Telegram file id of an image the message shows (or replies to), for vision models
 
     @CreateDateColumn()
     timestamp!: Date;
 }
 
+/**
+ * Files sent to a chat, so read_document can find them by name later.
+ * Their text is extracted on demand and only cached in memory.
+ */
+@Entity("chat_documents")
+@Index(["chat_id"])
+export class ChatDocument {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column(BIGINT)
+    chat_id!: string;
+
+    @Column({ ...BIGINT, nullable: true })
+    user_id?: string | null; // Who sent it
+
+    @Column({ type: "varchar", length: 255 })
+    file_id!: string;
+
+    @Column({ type: "varchar", length: 100 })
+    file_unique_id!: string; // Stable across bots and re-sends, the cache key
+
+    @Column({ type: "varchar", length: 255, nullable: true })
+    file_name?: string | null;
+
+    @Column({ type: "varchar", length: 100, nullable: true })
+    mime_type?: string | null;
+
+    @Column({ type: "int", nullable: true })
+    file_size?: number | null;
+
+    @CreateDateColumn()
+    created_at!: Date;
+}
+
 @Entity("relationships")
 export class Relationship {
     @PrimaryGeneratedColumn()
     id!: number;
 
-    @Column({ type: "bigint" })
+    @Column(BIGINT)
     chat_id!: string;
 
-    @Column({ type: "bigint" })
+    @Column(BIGINT)
     user_id_1!: string;
 
-    @Column({ type: "bigint" })
+    @Column(BIGINT)
     user_id_2!: string;
 
     @Column({ type: "int", default: 0 })
@@ -89,7 +189,7 @@ export class Relationship {
 
 @Entity("chat_settings")
 export class ChatSettings {
-    @PrimaryColumn({ type: "bigint" })
+    @PrimaryColumn(BIGINT)
     chat_id!: string;
 
     @Column({ type: "float", default: 0.7 })
@@ -103,11 +203,80 @@ export class ChatSettings {
 
     @Column({ type: "int", default: 0 })
     message_counter!: number;
+
+    @Column({ type: "simple-array", nullable: true })
+    disabled_tools?: string[]; // Tool names the model may not call in this chat
+
+    @Column({ type: "simple-array", nullable: true })
+    member_settings?: string[]; // Settings ordinary members may change (admins can always)
+
+    @Column({ type: "varchar", length: 64, nullable: true })
+    timezone?: string | null; // IANA name; users can override it with their own
+
+    @Column({ type: "varchar", length: 20, nullable: true })
+    quiet_hours?: string | null; // e.g. "23:00-08:00" in the chat's timezone: no idle wake-ups or non-urgent reminders
+
+    @Column({ type: Date, nullable: true })
+    muted_until?: Date | null; // /mute: no unsolicited messages at all until then
+
+    @Column({ type: "varchar", length: 10, nullable: true })
+    link_summaries?: string | null; // /links: "reply" or "silent"; null = off
+
+    @Column({ type: "simple-array", nullable: true })
+    link_rules?: string[]; // Per-domain overrides of link_summaries, "domain=mode"
+}
+
+/**
+ * Links already summarized in a chat (by hash of the normalized URL), so a link posted
+ * again isn't summarized twice
+ */
+@Entity("chat_links")
+@Index(["chat_id", "url_hash"], { unique: true })
+export class ChatLink {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column(BIGINT)
+    chat_id!: string;
+
+    @Column({ type: "varchar", length: 64 })
+    url_hash!: string; // sha256 hex
+
+    @CreateDateColumn()
+    created_at!: Date;
+}
+
+/**
+ * Extracted text and summary of a link, shared by all chats until it goes stale
+ */
+@Entity("link_previews")
+export class LinkPreview {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Index({ unique: true })
+    @Column({ type: "varchar", length: 64 })
+    url_hash!: string;
+
+    @Column({ type: "text" })
+    url!: string;
+
+    @Column({ type: "varchar", length: 500, nullable: true })
+    title?: string | null;
+
+    @Column({ type: "text" })
+    content!: string; // Beginning of the extracted text
+
+    @Column({ type: "text", nullable: true })
+    summary?: string | null; // null when the page had nothing worth summarizing
+
+    @Column({ type: Date })
+    fetched_at!: Date;
 }
 
 @Entity("chat_summaries")
 export class ChatSummary {
-    @PrimaryColumn({ type: "bigint" })
+    @PrimaryColumn(BIGINT)
     chat_id!: string;
 
     @Column({ type: "text" })
@@ -122,21 +291,83 @@ export class Reminder {
     @PrimaryGeneratedColumn()
     id!: number;
 
-    @Column({ type: "bigint" })
+    @Column(BIGINT)
     chat_id!: string;
 
-    @Column({ type: "bigint" })
+    @Column(BIGINT)
     user_id!: string;
 
     @Column({ type: "text" })
     text!: string;
 
-    @Column({ type: "datetime" })
+    @Column({ type: Date })
     due_at!: Date;
 
     @Column({ type: "boolean", default: false })
     is_sent!: boolean;
 
+    @Column({ type: "varchar", length: 100, nullable: true })
+    recurrence?: string | null; // "daily", "weekly" or a cron expression; null for one-off reminders
+
+    @Column({ type: Date, nullable: true })
+    ends_at?: Date | null; // Last moment a recurring reminder may fire
+
+    @Column({ type: "int", nullable: true })
+    remaining_count?: number | null; // Deliveries left for a recurring reminder, null = unlimited
+
+    @Column({ type: "boolean", default: false })
+    urgent!: boolean; // Delivered even during quiet hours and /mute
+
+    @CreateDateColumn()
+    created_at!: Date;
+}
+
+@Entity("scheduled_jobs")
+@Index(["type", "chat_id"], { unique: true })
+export class ScheduledJob {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({ type: "varchar", length: 50 })
+    type!: string; // e.g. "idle", "passive_batch"
+
+    @Column(BIGINT)
+    chat_id!: string;
+
+    @Column({ type: Date })
+    run_at!: Date;
+
+    @Column({ type: "text", nullable: true })
+    payload?: string; // JSON
+
+    @Column({ type: Date, nullable: true })
+    claimed_at?: Date | null; // Set while a handler runs it; the row is deleted once it succeeds
+
+    @Column({ type: "int", default: 0 })
+    attempts!: number; // Failed or interrupted runs so far
+
+    @CreateDateColumn()
+    created_at!: Date;
+}
+
+@Entity("memory_embeddings")
+@Index(["source_type", "source_id", "model"], { unique: true })
+export class MemoryEmbedding {
+    @PrimaryGeneratedColumn()
+    id!: number;
+
+    @Column({ type: "varchar", length: 20 })
+    source_type!: string; // "fact" or "message" (history row)
+
+    @Column({ type: "int" })
+    source_id!: number;
+
+    @Column({ type: "varchar", length: 100 })
+    model!: string; // Vectors are only comparable within one model
+
+    @Column({ type: "text" })
+    vector!: string; // Base64 of a Float32Array
+
     @CreateDateColumn()
     created_at!: Date;
 }
@@ -144,11 +375,18 @@ export class Reminder {
 // --- DataSource Setup ---
 
 const DB_TYPE = process.env.DB_TYPE || "sqlite";
-const isMysql = DB_TYPE === "mysql";
+
+// Schema changes go through migrations (src/migrations). synchronize is only for local development.
+const SYNCHRONIZE = process.env.DB_SYNCHRONIZE
+    ? process.env.DB_SYNCHRONIZE === "true"
+    : process.env.NODE_ENV === "development";
+const MIGRATIONS = [path.join(__dirname, "migrations", "*.{ts,js}")];
+const ENTITIES = [User, Fact, FactRevision, History, ChatDocument, ChatSettings, ChatLink, LinkPreview, Relationship, ChatSummary, Reminder, ScheduledJob, MemoryEmbedding];
+const POOL_SIZE = Number(process.env.DB_POOL_SIZE) || undefined;
 
 let dataSourceConfig: any;
 
-if (isMysql) {
+if (DB_TYPE === "mysql") {
     dataSourceConfig = {
         type: "mysql",
         host: process.env.DB_HOST || "localhost",
@@ -157,9 +395,32 @@ if (isMysql) {
         password: process.env.DB_PASSWORD || "",
         database: process.env.DB_NAME || "norel_bot",
         charset: "utf8mb4_unicode_ci",
-        synchronize: true, // Auto-create tables
+        poolSize: POOL_SIZE,
+        synchronize: SYNCHRONIZE,
+        logging: false,
+        entities: ENTITIES,
+        migrations: MIGRATIONS,
+    };
+} else if (DB_TYPE === "postgres") {
+    // DB_SSL: "true" (verify certificate), "no-verify" (e.g. managed DBs with self-signed certs), anything else = off
+    const ssl = process.env.DB_SSL === "true" ? true
+        : process.env.DB_SSL === "no-verify" ? { rejectUnauthorized: false }
+        : false;
+
+    dataSourceConfig = {
+        type: "postgres",
+        url: process.env.DATABASE_URL, // Takes precedence over the separate fields below
+        host: process.env.DB_HOST || "localhost",
+        port: Number(process.env.DB_PORT) || 5432,
+        username: process.env.DB_USER || "postgres",
+        password: process.env.DB_PASSWORD || "",
+        database: process.env.DB_NAME || "norel_bot",
+        ssl,
+        poolSize: POOL_SIZE,
+        synchronize: SYNCHRONIZE,
         logging: false,
-        entities: [User, Fact, History, ChatSettings, Relationship, ChatSummary, Reminder],
+        entities: ENTITIES,
+        migrations: MIGRATIONS,
     };
 } else {
     const DB_PATH = process.env.DB_PATH || path.join("/tmp", "bot_memory.sqlite");
@@ -170,9 +431,10 @@ if (isMysql) {
     dataSourceConfig = {
         type: "sqlite",
         database: DB_PATH,
-        synchronize: true,
+        synchronize: SYNCHRONIZE,
         logging: false,
-        entities: [User, Fact, History, ChatSettings, Relationship, ChatSummary, Reminder],
+        entities: ENTITIES,
+        migrations: MIGRATIONS,
     };
 }
 
@@ -183,6 +445,16 @@ export async function initDB() {
     if (!AppDataSource.isInitialized) {
         await AppDataSource.initialize();
         console.log(`[DB] Connected to ${DB_TYPE} database via TypeORM.`);
+
+        // Apply pending migrations unless explicitly disabled (DB_MIGRATIONS_RUN=false)
+        if (await AppDataSource.showMigrations()) {
+            if (process.env.DB_MIGRATIONS_RUN === "false") {
+                console.warn(`[DB] There are pending migrations! Run "npm run migration:run" before using this schema.`);
+            } else {
+                const applied = await AppDataSource.runMigrations({ transaction: "each" });
+                console.log(`[DB] Applied ${applied.length} migration(s): ${applied.map(m => m.name).join(", ")}`);
+            }
+        }
     }
 }
 
@@ -237,10 +509,108 @@ export async function upsertChatSettings(chatId: number, temperature: number, mo
     );
 }
 
-export async function getChatSettings(chatId: number): Promise<{ temperature: number, mood: string, reply_chance: number, message_counter: number }> {
+export async function getChatSettings(chatId: number): Promise<{ temperature: number, mood: string, reply_chance: number, message_counter: number, disabled_tools: string[], member_settings: string[], timezone: string | null, quiet_hours: string | null, muted_until: Date | null, link_summaries: string | null, link_rules: string[] }> {
     const repo = AppDataSource.getRepository(ChatSettings);
     const settings = await repo.findOneBy({ chat_id: chatId.toString() });
-    return settings || { temperature: 0.7, mood: 'neutral', reply_chance: 10, message_counter: 0 };
+    if (!settings) {
+        return { temperature: 0.7, mood: 'neutral', reply_chance: 10, message_counter: 0, disabled_tools: [], member_settings: [], timezone: null, quiet_hours: null, muted_until: null, link_summaries: null, link_rules: [] };
+    }
+    return { ...settings, disabled_tools: settings.disabled_tools || [], member_settings: settings.member_settings || [], timezone: settings.timezone || null,
+        quiet_hours: settings.quiet_hours || null, muted_until: settings.muted_until ? new Date(settings.muted_until) : null,
+        link_summaries: settings.link_summaries || null, link_rules: settings.link_rules || [] };
+}
+
+export async function setChatTimezone(chatId: number, timezone: string | null) {
+    const repo = AppDataSource.getRepository(ChatSettings);
+    const chatIdStr = chatId.toString();
+    const settings = await repo.findOneBy({ chat_id: chatIdStr }) || repo.create({ chat_id: chatIdStr });
+    settings.timezone = timezone;
+    await repo.save(settings);
+}
+
+export async function setQuietHours(chatId: number, quietHours: string | null) {
+    const repo = AppDataSource.getRepository(ChatSettings);
+    const chatIdStr = chatId.toString();
+    const settings = await repo.findOneBy({ chat_id: chatIdStr }) || repo.create({ chat_id: chatIdStr });
+    settings.quiet_hours = quietHours;
+    await repo.save(settings);
+}
+
+export async function setMutedUntil(chatId: number, mutedUntil: Date | null) {
+    const repo = AppDataSource.getRepository(ChatSettings);
+    const chatIdStr = chatId.toString();
+    const settings = await repo.findOneBy({ chat_id: chatIdStr }) || repo.create({ chat_id: chatIdStr });
+    settings.muted_until = mutedUntil;
+    await repo.save(settings);
+}
+
+export async function setLinkSummaries(chatId: number, mode: string | null) {
+    const repo = AppDataSource.getRepository(ChatSettings);
+    const chatIdStr = chatId.toString();
+    const settings = await repo.findOneBy({ chat_id: chatIdStr }) || repo.create({ chat_id: chatIdStr });
+    settings.link_summaries = mode;
+    await repo.save(settings);
+}
+
+export async function setLinkRules(chatId: number, rules: string[]) {
+    const repo = AppDataSource.getRepository(ChatSettings);
+    const chatIdStr = chatId.toString();
+    const settings = await repo.findOneBy({ chat_id: chatIdStr }) || repo.create({ chat_id: chatIdStr });
+    settings.link_rules = rules;
+    await repo.save(settings);
+}
+
+/**
+ * The user must exist (upsertUser) before their timezone can be set
+ */
+export async function setUserTimezone(userId: number, timezone: string | null) {
+    const repo = AppDataSource.getRepository(User);
+    await repo.update({ id: userId.toString() }, { timezone });
+}
+
+/**
+ * Timezone for times shown to or entered by a user: the user's own, then the chat's,
+ * then BOT_TIMEZONE. Without a user (prompts, idle wake-ups) private chats still use
+ * their owner's timezone, since the chat id is the user id there.
+ */
+export async function resolveTimezone(chatId: number, userId?: number): Promise<string> {
+    const personId = userId ?? (chatId > 0 ? chatId : undefined);
+    if (personId) {
+        const user = await getUser(personId);
+        if (user?.timezone) return user.timezone;
+    }
+    const settings = await getChatSettings(chatId);
+    return settings.timezone || DEFAULT_TIMEZONE;
+}
+
+export async function setMemberSettings(chatId: number, memberSettings: string[]) {
+    const repo = AppDataSource.getRepository(ChatSettings);
+    const chatIdStr = chatId.toString();
+    let settings = await repo.findOneBy({ chat_id: chatIdStr });
+
+    if (!settings) {
+        settings = repo.create({ chat_id: chatIdStr });
+    }
+
+    settings.member_settings = memberSettings;
+    await repo.save(settings);
+}
+
+export async function setToolEnabled(chatId: number, toolName: string, enabled: boolean) {
+    const repo = AppDataSource.getRepository(ChatSettings);
+    const chatIdStr = chatId.toString();
+    let settings = await repo.findOneBy({ chat_id: chatIdStr });
+
+    if (!settings) {
+        settings = repo.create({ chat_id: chatIdStr });
+    }
+
+    const disabled = new Set(settings.disabled_tools || []);
+    if (enabled) disabled.delete(toolName);
+    else disabled.add(toolName);
+
+    settings.disabled_tools = [...disabled];
+    await repo.save(settings);
 }
 
 /**
@@ -272,14 +642,51 @@ export async function shouldReplyPassive(chatId: number, increment: number = 1):
     return false;
 }
 
-export async function addFact(userId: number, fact: string, ttlSeconds?: number) {
+// Who told a fact and where, for new facts
+export type FactOrigin = {
+    reporterId?: number;
+    chatId?: number | string | null;
+    visibility?: FactVisibility;
+};
+
+function originColumns(origin: FactOrigin = {}) {
+    return {
+        reporter_id: origin.reporterId ? origin.reporterId.toString() : null,
+        chat_id: origin.chatId ? origin.chatId.toString() : null,
+        visibility: origin.visibility ?? "global",
+    };
+}
+
+/**
+ * Only facts that may be shown in this chat (see FactVisibility)
+ */
+function whereVisibleIn<T extends ObjectLiteral>(qb: SelectQueryBuilder<T>, chatId: number): SelectQueryBuilder<T> {
+    // Private chats have the user's id as their chat id; groups have negative ids. A private fact
+    // shows in the DM it was told in, and in its subject's DM only if they told it themselves:
+    // what someone told the bot about them in confidence stays in that person's DM.
+    const privateChat = chatId > 0;
+    return qb.andWhere(
+        `(fact.visibility = 'global' OR (fact.visibility = 'chat' AND fact.chat_id = :visibleChatId)` +
+        (privateChat ? ` OR (fact.visibility = 'private' AND (fact.chat_id = :visibleChatId OR (fact.user_id = :visibleChatId AND fact.reporter_id = :visibleChatId)))` : "") +
+        `)`,
+        { visibleChatId: chatId.toString() }
+    );
+}
+
+/**
+ * Saves a fact (or refreshes the expiry of an identical one with the same visibility). Returns the fact id.
+ */
+export async function addFact(userId: number, fact: string, ttlSeconds?: number, origin?: FactOrigin): Promise<number> {
     const repo = AppDataSource.getRepository(Fact);
     const userIdStr = userId.toString();
-    
+    const columns = originColumns(origin);
+
     // Check for duplicates
     const existing = await repo.findOneBy({
         user_id: userIdStr,
-        fact: fact
+        fact: fact,
+        visibility: columns.visibility,
+        chat_id: columns.visibility === "global" ? undefined : (columns.chat_id ?? IsNull())
     });
 
     if (existing) {
@@ -289,28 +696,33 @@ export async function addFact(userId: number, fact: string, ttlSeconds?: number)
             existing.expires_at = new Date(Date.now() + ttlSeconds * 1000);
             await repo.save(existing);
         }
-        return;
+        return existing.id;
     }
 
     const expiresAt = ttlSeconds ? new Date(Date.now() + ttlSeconds * 1000) : undefined;
 
     console.log(`[DB] Adding fact for user ${userIdStr} (TTL: ${ttlSeconds || 'infinite'}): ${fact.substring(0, 50)}...`);
-    await repo.save({
+    const saved = await repo.save({
         user_id: userIdStr,
         fact: fact,
-        expires_at: expiresAt
+        expires_at: expiresAt,
+        ...columns
     });
+    return saved.id;
 }
 
-export async function getFacts(userId: number): Promise<string[]> {
+/**
+ * Active facts about the user that may be shown in this chat, newest first
+ */
+export async function getFacts(userId: number, chatId: number): Promise<string[]> {
     const repo = AppDataSource.getRepository(Fact);
     const userIdStr = userId.toString();
     const now = new Date();
     
     // Find facts that haven't expired
-    const facts = await repo.createQueryBuilder("fact")
+    const facts = await whereVisibleIn(repo.createQueryBuilder("fact")
         .where("fact.user_id = :userId", { userId: userIdStr })
-        .andWhere("(fact.expires_at IS NULL OR fact.expires_at > :now)", { now })
+        .andWhere("(fact.expires_at IS NULL OR fact.expires_at > :now)", { now }), chatId)
         .orderBy("fact.created_at", "DESC")
         .take(15)
         .getMany();
@@ -319,7 +731,23 @@ export async function getFacts(userId: number): Promise<string[]> {
     if (facts.length > 0) {
         console.log(`[DB] Sample facts for user ${userIdStr}: ${facts.slice(0, 2).map(f => f.fact.substring(0, 30)).join(', ')}`);
     }
-    return facts.map(f => f.fact);
+    return await attributeFacts(facts);
+}
+
+/**
+ * Fact texts for the prompt: facts told by someone other than their subject get
+ * "(источник: Вася)", so the model knows it's hearsay.
+ */
+export async function attributeFacts(facts: { user_id: string; fact: string; reporter_id?: string | null }[]): Promise<string[]> {
+    const isHearsay = (f: { user_id: string; reporter_id?: string | null }) => !!f.reporter_id && String(f.reporter_id) !== String(f.user_id);
+
+    const reporterIds = [...new Set(facts.filter(isHearsay).map(f => String(f.reporter_id)))];
+    const reporters = reporterIds.length > 0
+        ? await AppDataSource.getRepository(User).findBy({ id: In(reporterIds) })
+        : [];
+    const names = new Map(reporters.map(u => [u.id, u.first_name || u.username || u.id]));
+
+    return facts.map(f => isHearsay(f) ? `${f.fact} (источник: ${names.get(String(f.reporter_id)) ?? f.reporter_id})` : f.fact);
 }
 
 export async function deleteFact(userId: number, factText: string) {
@@ -327,22 +755,188 @@ export async function deleteFact(userId: number, factText: string) {
     // Find exact match or similar
     await repo.delete({
         user_id: userId.toString(),
-        fact: factText
+        // The model copies facts from the prompt, attribution included
+        fact: factText.replace(/\s*\(источник: [^)]*\)$/, "")
     });
 }
 
-export async function addMessage(chatId: number, role: 'user' | 'assistant' | 'system', content: string, name?: string, userId?: number) {
+/**
+ * Active facts with their ids and expiry, oldest first, for /memory.
+ * With a chatId only the ones that may be shown in that chat.
+ */
+export async function listFacts(userId: number, chatId?: number): Promise<Fact[]> {
+    const repo = AppDataSource.getRepository(Fact);
+    const qb = repo.createQueryBuilder("fact")
+        .where("fact.user_id = :userId", { userId: userId.toString() })
+        .andWhere("(fact.expires_at IS NULL OR fact.expires_at > :now)", { now: new Date() });
+    return await (chatId !== undefined ? whereVisibleIn(qb, chatId) : qb)
+        .orderBy("fact.id", "ASC")
+        .getMany();
+}
+
+/**
+ * Changes where one of the user's facts may be shown; "chat" and "private" tie it to `chatId`.
+ * Returns false if the user has no such fact.
+ */
+export async function setFactVisibility(userId: number, factId: number, visibility: FactVisibility, chatId: number): Promise<boolean> {
+    const repo = AppDataSource.getRepository(Fact);
+    const fact = await repo.findOneBy({ id: factId, user_id: userId.toString() });
+    if (!fact) return false;
+
+    fact.visibility = visibility;
+    if (visibility !== "global") fact.chat_id = chatId.toString();
+    await repo.save(fact);
+    return true;
+}
+
+/**
+ * Deletes one of the user's facts by id. Returns false if the user has no such fact.
+ */
+export async function deleteFactById(userId: number, factId: number): Promise<boolean> {
+    const repo = AppDataSource.getRepository(Fact);
+    const result = await repo.delete({ id: factId, user_id: userId.toString() });
+    return (result.affected ?? 0) > 0;
+}
+
+/**
+ * Deletes every fact about the user. Returns how many were removed.
+ */
+export async function deleteAllFacts(userId: number): Promise<number> {
+    const repo = AppDataSource.getRepository(Fact);
+    const result = await repo.delete({ user_id: userId.toString() });
+    return result.affected ?? 0;
+}
+
+export type FactReplacement = {
+    action: "duplicate" | "merged" | "superseded";
+    text: string; // The fact that stays
+    expiresAt: Date | null;
+    replacedIds: number[]; // Existing facts to remove
+    keepId?: number; // Rewrite this existing fact to `text` instead of adding a new one
+    origin?: FactOrigin; // Who told the new fact and where it may be shown; with keepId only the reporter is applied
+    discarded?: string; // A new fact that was never stored (e.g. a duplicate), for the audit trail
+};
+
+/**
+ * Replaces some of the user's facts with a single one and records what was replaced in
+ * fact_revisions, all in one transaction. Returns the id of the remaining fact.
+ */
+export async function replaceFacts(userId: number, replacement: FactReplacement): Promise<number> {
+    const userIdStr = userId.toString();
+    const { action, text, expiresAt, replacedIds, keepId, discarded, origin } = replacement;
+
+    return await AppDataSource.transaction(async (manager) => {
+        const replaced = replacedIds.length > 0
+            ? await manager.findBy(Fact, { id: In(replacedIds), user_id: userIdStr })
+            : [];
+
+        let factId: number;
+        if (keepId !== undefined) {
+            const kept = await manager.findOneBy(Fact, { id: keepId, user_id: userIdStr });
+            if (!kept) throw new Error(`Fact #${keepId} of user ${userIdStr} not found`);
+            if (kept.fact !== text) {
+                // The old vector no longer matches the text; the indexer picks the fact up again
+                await manager.delete(MemoryEmbedding, { source_type: "fact", source_id: keepId });
+            }
+            await manager.update(Fact, keepId, {
+                fact: text,
+                expires_at: expiresAt,
+                ...(origin ? { reporter_id: originColumns(origin).reporter_id } : {}),
+            });
+            factId = keepId;
+        } else {
+            factId = (await manager.save(Fact, {
+                user_id: userIdStr,
+                fact: text,
+                expires_at: expiresAt,
+                ...originColumns(origin),
+            })).id;
+        }
+
+        const removed = replaced.filter(f => f.id !== factId);
+        if (removed.length > 0) {
+            await manager.delete(Fact, removed.map(f => f.id));
+            await manager.delete(MemoryEmbedding, { source_type: "fact", source_id: In(removed.map(f => f.id)) });
+        }
+
+        const oldTexts = [...removed.map(f => f.fact), ...(discarded !== undefined ? [discarded] : [])];
+        if (oldTexts.length > 0) {
+            await manager.save(FactRevision, oldTexts.map(old => ({
+                user_id: userIdStr,
+                action,
+                old_fact: old,
+                new_fact: text,
+                fact_id: factId,
+            })));
+        }
+
+        console.log(`[DB] Consolidated ${oldTexts.length} fact(s) of user ${userIdStr} (${action}) into #${factId}: ${text.substring(0, 50)}`);
+        return factId;
+    });
+}
+
+/**
+ * Latest consolidation changes to the user's facts, newest first
+ */
+export async function listFactRevisions(userId: number, limit: number = 10): Promise<FactRevision[]> {
+    return await AppDataSource.getRepository(FactRevision).find({
+        where: { user_id: userId.toString() },
+        order: { id: "DESC" },
+        take: limit
+    });
+}
+
+/**
+ * Users with at least `minFacts` active facts that got new facts since their last compaction
+ */
+export async function getUsersForFactCompaction(minFacts: number, limit: number): Promise<number[]> {
+    const rows = await AppDataSource.getRepository(Fact).createQueryBuilder("fact")
+        .innerJoin(User, "u", "u.id = fact.user_id")
+        .select("fact.user_id", "user_id")
+        .where("(fact.expires_at IS NULL OR fact.expires_at > :now)", { now: new Date() })
+        .groupBy("fact.user_id")
+        .addGroupBy("u.facts_compacted_at")
+        .having("COUNT(*) >= :minFacts", { minFacts })
+        .andHaving("(u.facts_compacted_at IS NULL OR MAX(fact.created_at) > u.facts_compacted_at)")
+        .limit(limit)
+        .getRawMany();
+    return rows.map(r => Number(r.user_id));
+}
+
+export async function markFactsCompacted(userId: number) {
+    await AppDataSource.getRepository(User).update({ id: userId.toString() }, { facts_compacted_at: new Date() });
+}
+
+/**
+ * Saves a history row and returns its id
+ */
+export async function addMessage(chatId: number, role: 'user' | 'assistant' | 'system', content: string, name?: string, userId?: number, imageFileId?: string | null): Promise<number> {
     const repo = AppDataSource.getRepository(History);
-    await repo.save({
+    const saved = await repo.save({
         chat_id: chatId.toString(),
         user_id: userId ? userId.toString() : undefined,
         role: role,
         name: name,
-        content: content
+        content: content,
+        image_file_id: imageFileId ?? null
     });
+    return saved.id;
 }
 
-export async function getHistory(chatId: number, limit: number = 10): Promise<{ role: string, content: string, name?: string, userId?: string }[]> {
+/**
+ * Replaces the text of a saved message (a voice note once it is transcribed).
+ * Its embedding is dropped, so recall indexes the new text.
+ */
+export async function updateMessageContent(id: number, content: string) {
+    await AppDataSource.transaction(async manager => {
+        await manager.update(History, { id }, { content });
+        await manager.delete(MemoryEmbedding, { source_type: "message", source_id: id });
+    });
+}
+
+export type HistoryMessage = { role: string, content: string, name?: string, userId?: string, imageFileId?: string | null };
+
+export async function getHistory(chatId: number, limit: number = 10): Promise<HistoryMessage[]> {
     const repo = AppDataSource.getRepository(History);
     const history = await repo.find({
         where: { chat_id: chatId.toString() },
@@ -353,10 +947,82 @@ export async function getHistory(chatId: number, limit: number = 10): Promise<{
         role: h.role,
         content: h.content,
         name: h.name,
-        userId: h.user_id
+        userId: h.user_id,
+        imageFileId: h.image_file_id
     }));
 }
 
+// --- Chat Documents ---
+
+export async function addChatDocument(chatId: number, userId: number | undefined, doc: { file_id: string; file_unique_id: string; file_name?: string; mime_type?: string; file_size?: number }) {
+    await AppDataSource.getRepository(ChatDocument).save({
+        chat_id: chatId.toString(),
+        user_id: userId ? userId.toString() : null,
+        file_id: doc.file_id,
+        file_unique_id: doc.file_unique_id,
+        file_name: doc.file_name ?? null,
+        mime_type: doc.mime_type ?? null,
+        file_size: doc.file_size ?? null,
+    });
+}
+
+/**
+ * The newest document of a chat whose name matches `name` (exactly, then as a part,
+ * ignoring case), or simply the newest one without a name. Looks at the last `limit` files.
+ */
+export async function findChatDocument(chatId: number, name?: string, limit: number = 50): Promise<ChatDocument | null> {
+    const docs = await AppDataSource.getRepository(ChatDocument).find({
+        where: { chat_id: chatId.toString() },
+        order: { id: "DESC" },
+        take: limit
+    });
+    const wanted = name?.trim().toLowerCase();
+    if (!wanted) return docs[0] ?? null;
+
+    return docs.find(d => d.file_name?.toLowerCase() === wanted)
+        ?? docs.find(d => d.file_name?.toLowerCase().includes(wanted))
+        ?? null;
+}
+
+// --- Link Summaries ---
+
+export async function hasChatLink(chatId: number, urlHash: string): Promise<boolean> {
+    return await AppDataSource.getRepository(ChatLink).existsBy({ chat_id: chatId.toString(), url_hash: urlHash });
+}
+
+/**
+ * Marks a link as summarized in a chat. Returns false if it already was: the unique index
+ * decides, so of two tasks racing for the same link only one wins.
+ */
+export async function claimChatLink(chatId: number, urlHash: string): Promise<boolean> {
+    try {
+        await AppDataSource.getRepository(ChatLink).insert({ chat_id: chatId.toString(), url_hash: urlHash });
+        return true;
+    } catch (e) {
+        if (e instanceof QueryFailedError && await hasChatLink(chatId, urlHash)) return false;
+        throw e;
+    }
+}
+
+/**
+ * The cached preview of a link, if it was fetched after `since`
+ */
+export async function getLinkPreview(urlHash: string, since: Date): Promise<LinkPreview | null> {
+    const preview = await AppDataSource.getRepository(LinkPreview).findOneBy({ url_hash: urlHash });
+    return preview && new Date(preview.fetched_at) > since ? preview : null;
+}
+
+export async function saveLinkPreview(preview: { url_hash: string; url: string; title: string | null; content: string; summary: string | null }) {
+    const repo = AppDataSource.getRepository(LinkPreview);
+    const existing = await repo.findOneBy({ url_hash: preview.url_hash });
+    await repo.save({ ...existing, ...preview, fetched_at: new Date() });
+}
+
+export async function deleteStaleLinkPreviews(before: Date): Promise<number> {
+    const result = await AppDataSource.getRepository(LinkPreview).delete({ fetched_at: LessThan(before) });
+    return result.affected ?? 0;
+}
+
 export async function updateRelationship(chatId: number, userId1: number, userId2: number, affectionDelta: number, status?: string) {
     const repo = AppDataSource.getRepository(Relationship);
     // Sort IDs to ensure consistent pairs using string comparison
@@ -428,32 +1094,62 @@ export async function getUser(userId: number): Promise<User | null> {
     return await repo.findOneBy({ id: userId.toString() });
 }
 
-export async function addReminder(chatId: number, userId: number, text: string, dueAt: Date) {
+/**
+ * Finds a user by id, @username or first name. Names are looked up among the people
+ * seen in this chat; an @username falls back to every known user.
+ */
+export async function findChatUser(chatId: number, ref: string): Promise<User | null> {
+    const query = ref.trim().replace(/^@/, "").toLowerCase();
+    if (!query) return null;
+    if (/^\d+$/.test(query)) return await getUser(Number(query));
+
+    const members = await getAllUsersInChat(chatId);
+    const byUsername = members.find(u => u.username?.toLowerCase() === query);
+    if (byUsername) return byUsername;
+
+    // A first name only counts if it's unambiguous
+    const byName = members.filter(u => u.first_name?.toLowerCase() === query);
+    if (byName.length === 1) return byName[0];
+
+    if (!ref.trim().startsWith("@")) return null;
+    return await AppDataSource.getRepository(User).createQueryBuilder("u")
+        .where("LOWER(u.username) = :username", { username: query })
+        .getOne();
+}
+
+// How many unsent reminders one user may have in a chat
+const MAX_REMINDERS_PER_USER = Number(process.env.MAX_REMINDERS_PER_USER) || 5;
+
+/**
+ * Returns the saved reminder, or null if the user already has MAX_REMINDERS_PER_USER pending in this chat
+ */
+export async function addReminder(chatId: number, userId: number, text: string, dueAt: Date, recurrence?: Recurrence, urgent: boolean = false): Promise<Reminder | null> {
     const repo = AppDataSource.getRepository(Reminder);
     const chatIdStr = chatId.toString();
     const userIdStr = userId.toString();
 
-    // Check if ANY unsent reminder already exists for this user in this chat
-    // to prevent spamming reminders for the same person.
-    const activeReminder = await repo.findOne({
-        where: {
-            chat_id: chatIdStr,
-            user_id: userIdStr,
-            is_sent: false
-        }
+    // Limit unsent reminders per user in a chat to prevent spam
+    const active = await repo.countBy({
+        chat_id: chatIdStr,
+        user_id: userIdStr,
+        is_sent: false
     });
 
-    if (activeReminder) {
-        console.log(`[DB] Active reminder already exists for user ${userIdStr} in chat ${chatIdStr}. Skipping.`);
-        return;
+    if (active >= MAX_REMINDERS_PER_USER) {
+        console.log(`[DB] User ${userIdStr} already has ${active} active reminders in chat ${chatIdStr}. Skipping.`);
+        return null;
     }
 
-    await repo.save({
+    return await repo.save({
         chat_id: chatIdStr,
         user_id: userIdStr,
         text: text,
         due_at: dueAt,
-        is_sent: false
+        is_sent: false,
+        recurrence: recurrence?.rule,
+        ends_at: recurrence?.endsAt,
+        remaining_count: recurrence?.count,
+        urgent
     });
 }
 
@@ -467,7 +1163,336 @@ export async function getPendingReminders(): Promise<Reminder[]> {
     });
 }
 
+export async function getReminder(id: number): Promise<Reminder | null> {
+    const repo = AppDataSource.getRepository(Reminder);
+    return await repo.findOneBy({ id });
+}
+
+/**
+ * Unsent reminders of a user in a chat, soonest first
+ */
+export async function listReminders(chatId: number, userId: number): Promise<Reminder[]> {
+    const repo = AppDataSource.getRepository(Reminder);
+    return await repo.find({
+        where: { chat_id: chatId.toString(), user_id: userId.toString(), is_sent: false },
+        order: { due_at: "ASC" }
+    });
+}
+
+/**
+ * Deletes one of the user's unsent reminders. Returns false if there is no such reminder.
+ */
+export async function cancelReminder(userId: number, id: number): Promise<boolean> {
+    const repo = AppDataSource.getRepository(Reminder);
+    const result = await repo.delete({ id, user_id: userId.toString(), is_sent: false });
+    return (result.affected ?? 0) > 0;
+}
+
 export async function markReminderSent(id: number) {
     const repo = AppDataSource.getRepository(Reminder);
     await repo.update(id, { is_sent: true });
 }
+
+/**
+ * Moves a recurring reminder to its next occurrence after a delivery
+ */
+export async function rescheduleReminder(id: number, dueAt: Date, remainingCount?: number) {
+    const repo = AppDataSource.getRepository(Reminder);
+    await repo.update(id, { due_at: dueAt, remaining_count: remainingCount ?? null });
+}
+
+/**
+ * Makes one of the user's unsent reminders recurring (or one-off again with null).
+ * Returns false if there is no such reminder.
+ */
+export async function setReminderRecurrence(userId: number, id: number, recurrence: Recurrence | null, dueAt?: Date): Promise<boolean> {
+    const repo = AppDataSource.getRepository(Reminder);
+    const result = await repo.update(
+        { id, user_id: userId.toString(), is_sent: false },
+        {
+            recurrence: recurrence?.rule ?? null,
+            ends_at: recurrence?.endsAt ?? null,
+            remaining_count: recurrence?.count ?? null,
+            ...(dueAt ? { due_at: dueAt } : {})
+        }
+    );
+    return (result.affected ?? 0) > 0;
+}
+
+/**
+ * Puts a delivered reminder back in the queue with a new due time
+ */
+export async function snoozeReminder(id: number, dueAt: Date) {
+    const repo = AppDataSource.getRepository(Reminder);
+    await repo.update(id, { due_at: dueAt, is_sent: false });
+}
+
+/**
+ * Creates the job or moves it. A job that is running is replaced by a fresh pending one:
+ * the running handler won't delete it when it finishes.
+ */
+export async function upsertScheduledJob(type: string, chatId: number, runAt: Date, payload?: any) {
+    const repo = AppDataSource.getRepository(ScheduledJob);
+    await repo.upsert(
+        { type, chat_id: chatId.toString(), run_at: runAt, payload: payload !== undefined ? JSON.stringify(payload) : undefined, claimed_at: null, attempts: 0 },
+        ["type", "chat_id"]
+    );
+}
+
+/**
+ * The pending job of this type for a chat; one that is already running doesn't count
+ */
+export async function getScheduledJob(type: string, chatId: number): Promise<ScheduledJob | null> {
+    const repo = AppDataSource.getRepository(ScheduledJob);
+    return await repo.findOneBy({ type, chat_id: chatId.toString(), claimed_at: IsNull() });
+}
+
+/**
+ * Replaces the payload of a pending job. False if it has started running or is gone.
+ */
+export async function updateScheduledJobPayload(id: number, payload: any): Promise<boolean> {
+    const repo = AppDataSource.getRepository(ScheduledJob);
+    const result = await repo.update({ id, claimed_at: IsNull() }, { payload: JSON.stringify(payload) });
+    return (result.affected ?? 0) > 0;
+}
+
+export async function deleteScheduledJob(type: string, chatId: number) {
+    const repo = AppDataSource.getRepository(ScheduledJob);
+    await repo.delete({ type, chat_id: chatId.toString() });
+}
+
+export async function getDueJobs(): Promise<ScheduledJob[]> {
+    const repo = AppDataSource.getRepository(ScheduledJob);
+    return await repo.find({
+        where: { run_at: LessThanOrEqual(new Date()), claimed_at: IsNull() },
+        order: { run_at: "ASC" }
+    });
+}
+
+/**
+ * Leases a due job so that only one worker runs it. The row stays until completeScheduledJob.
+ * Returns false if someone else already took it.
+ */
+export async function claimScheduledJob(id: number): Promise<boolean> {
+    const repo = AppDataSource.getRepository(ScheduledJob);
+    const result = await repo.update({ id, claimed_at: IsNull() }, { claimed_at: new Date() });
+    return (result.affected ?? 0) > 0;
+}
+
+/**
+ * Deletes a job whose handler succeeded, unless it was rescheduled while running
+ */
+export async function completeScheduledJob(id: number) {
+    const repo = AppDataSource.getRepository(ScheduledJob);
+    await repo.delete({ id, claimed_at: Not(IsNull()) });
+}
+
+/**
+ * Returns a job whose handler failed to the queue at retryAt, or deletes it after maxAttempts.
+ * A job rescheduled while running is left alone.
+ */
+export async function releaseScheduledJob(id: number, retryAt: Date, maxAttempts: number): Promise<"retry" | "dropped" | "rescheduled"> {
+    const repo = AppDataSource.getRepository(ScheduledJob);
+    const dropped = await repo.createQueryBuilder().delete()
+        .where("id = :id AND claimed_at IS NOT NULL AND attempts + 1 >= :maxAttempts", { id, maxAttempts })
+        .execute();
+    if ((dropped.affected ?? 0) > 0) return "dropped";
+
+    const released = await repo.createQueryBuilder().update()
+        .set({ claimed_at: null, run_at: retryAt, attempts: () => "attempts + 1" })
+        .where("id = :id AND claimed_at IS NOT NULL", { id })
+        .execute();
+    return (released.affected ?? 0) > 0 ? "retry" : "rescheduled";
+}
+
+/**
+ * Puts jobs leased by a previous process (it exited mid-run) back in the queue.
+ * Only for startup: with a single bot process, no handler is running yet.
+ */
+export async function releaseStaleScheduledJobs(): Promise<number> {
+    const repo = AppDataSource.getRepository(ScheduledJob);
+    const result = await repo.createQueryBuilder().update()
+        .set({ claimed_at: null, attempts: () => "attempts + 1" })
+        .where("claimed_at IS NOT NULL")
+        .execute();
+    return result.affected ?? 0;
+}
+
+// --- Personal Data ---
+
+/**
+ * Everything stored about a user, for /export_my_data: their profile, facts about them and
+ * facts they told about others, their messages, relationships, reminders and files, and their
+ * private chat with the bot. Embeddings are left out, they're derived from the facts and messages.
+ */
+export async function exportUserData(userId: number): Promise<Record<string, unknown>> {
+    const id = userId.toString();
+    const m = AppDataSource.manager;
+
+    return {
+        user_id: id,
+        exported_at: new Date().toISOString(),
+        profile: await m.findOneBy(User, { id }),
+        facts: await m.findBy(Fact, { user_id: id }),
+        facts_reported_about_others: await m.createQueryBuilder(Fact, "fact")
+            .where("fact.reporter_id = :id AND fact.user_id <> :id", { id })
+            .getMany(),
+        fact_revisions: await m.findBy(FactRevision, { user_id: id }),
+        messages: await m.createQueryBuilder(History, "history")
+            .where("history.user_id = :id OR history.chat_id = :id", { id })
+            .orderBy("history.id", "ASC")
+            .getMany(),
+        relationships: await m.createQueryBuilder(Relationship, "rel")
+            .where("rel.user_id_1 = :id OR rel.user_id_2 = :id", { id })
+            .getMany(),
+        reminders: await m.findBy(Reminder, { user_id: id }),
+        documents: await m.findBy(ChatDocument, { user_id: id }),
+        private_chat: {
+            settings: await m.findOneBy(ChatSettings, { chat_id: id }),
+            summary: await m.findOneBy(ChatSummary, { chat_id: id }),
+        },
+    };
+}
+
+/**
+ * Erases a user in one transaction: their profile, facts about them, messages and files they
+ * sent (in any chat), relationships, reminders and everything about their private chat with the
+ * bot. Facts they told about other people stay, without the reporter. Returns how many rows
+ * were removed (or anonymized) per table.
+ */
+export async function deleteUserData(userId: number): Promise<Record<string, number>> {
+    const id = userId.toString();
+
+    return await AppDataSource.transaction(async (m) => {
+        const counts: Record<string, number> = {};
+        const affected = (result: { affected?: number | null }) => result.affected ?? 0;
+
+        // Vectors first, while the rows they point to still exist
+        await m.createQueryBuilder().delete().from(MemoryEmbedding)
+            .where("source_type = 'fact' AND source_id IN (SELECT id FROM facts WHERE user_id = :id)", { id })
+            .execute();
+        await m.createQueryBuilder().delete().from(MemoryEmbedding)
+            .where("source_type = 'message' AND source_id IN (SELECT id FROM history WHERE user_id = :id OR chat_id = :id)", { id })
+            .execute();
+
+        counts.facts = affected(await m.delete(Fact, { user_id: id }));
+        counts.facts_anonymized = affected(await m.update(Fact, { reporter_id: id }, { reporter_id: null }));
+        counts.fact_revisions = affected(await m.delete(FactRevision, { user_id: id }));
+        counts.messages = affected(await m.createQueryBuilder().delete().from(History)
+            .where("user_id = :id OR chat_id = :id", { id })
+            .execute());
+        counts.relationships = affected(await m.createQueryBuilder().delete().from(Relationship)
+            .where("user_id_1 = :id OR user_id_2 = :id", { id })
+            .execute());
+        counts.reminders = affected(await m.delete(Reminder, { user_id: id }));
+        counts.documents = affected(await m.createQueryBuilder().delete().from(ChatDocument)
+            .where("user_id = :id OR chat_id = :id", { id })
+            .execute());
+        // A private chat's id is the user's id
+        counts.chat_settings = affected(await m.delete(ChatSettings, { chat_id: id }));
+        counts.chat_summaries = affected(await m.delete(ChatSummary, { chat_id: id }));
+        counts.links = affected(await m.delete(ChatLink, { chat_id: id }));
+        counts.scheduled_jobs = affected(await m.delete(ScheduledJob, { chat_id: id }));
+        counts.users = affected(await m.delete(User, { id }));
+
+        console.log(`[DB] Erased data of user ${id}: ${JSON.stringify(counts)}`);
+        return counts;
+    });
+}
+
+// --- Memory Embeddings ---
+
+/**
+ * Active facts that have no embedding for this model yet, newest first
+ */
+export async function getUnindexedFacts(model: string, limit: number): Promise<Fact[]> {
+    return await AppDataSource.getRepository(Fact).createQueryBuilder("fact")
+        .leftJoin(MemoryEmbedding, "emb", "emb.source_type = 'fact' AND emb.source_id = fact.id AND emb.model = :model", { model })
+        .where("emb.id IS NULL")
+        .andWhere("(fact.expires_at IS NULL OR fact.expires_at > :now)", { now: new Date() })
+        .orderBy("fact.id", "DESC")
+        .limit(limit)
+        .getMany();
+}
+
+/**
+ * User and assistant messages of at least minLength characters without an embedding for this model, newest first
+ */
+export async function getUnindexedMessages(model: string, limit: number, minLength: number): Promise<History[]> {
+    return await AppDataSource.getRepository(History).createQueryBuilder("history")
+        .leftJoin(MemoryEmbedding, "emb", "emb.source_type = 'message' AND emb.source_id = history.id AND emb.model = :model", { model })
+        .where("emb.id IS NULL")
+        .andWhere("history.role IN (:...roles)", { roles: ["user", "assistant"] })
+        .andWhere("LENGTH(history.content) >= :minLength", { minLength })
+        .orderBy("history.id", "DESC")
+        .limit(limit)
+        .getMany();
+}
+
+export async function saveEmbeddings(rows: { source_type: string; source_id: number; model: string; vector: string }[]) {
+    if (rows.length === 0) return;
+    await AppDataSource.getRepository(MemoryEmbedding).upsert(rows, ["source_type", "source_id", "model"]);
+}
+
+/**
+ * Embedded active facts about these users; with a chatId only the ones that may be shown there
+ */
+export async function getFactEmbeddings(userIds: number[], model: string, chatId?: number): Promise<{ id: number; fact: string; vector: string }[]> {
+    if (userIds.length === 0) return [];
+    const qb = AppDataSource.getRepository(MemoryEmbedding).createQueryBuilder("emb")
+        .innerJoin(Fact, "fact", "fact.id = emb.source_id")
+        .select(["fact.id AS id", "fact.fact AS fact", "fact.user_id AS user_id", "fact.reporter_id AS reporter_id", "emb.vector AS vector"])
+        .where("emb.source_type = 'fact' AND emb.model = :model", { model })
+        .andWhere("fact.user_id IN (:...userIds)", { userIds: userIds.map(String) })
+        .andWhere("(fact.expires_at IS NULL OR fact.expires_at > :now)", { now: new Date() });
+    const rows = await (chatId !== undefined ? whereVisibleIn(qb, chatId) : qb).getRawMany();
+
+    // Same wording as getFacts, so recall can tell which facts are already in the prompt
+    const texts = await attributeFacts(rows);
+    return rows.map((r, i) => ({ id: r.id, fact: texts[i], vector: r.vector }));
+}
+
+/**
+ * Embedded messages of a chat older than the `skipRecent` newest ones (those are already
+ * in the prompt as history), newest first
+ */
+export async function getMessageEmbeddings(chatId: number, model: string, skipRecent: number, limit: number): Promise<{ content: string; name: string | null; sent_at: Date; vector: string }[]> {
+    const query = AppDataSource.getRepository(MemoryEmbedding).createQueryBuilder("emb")
+        .innerJoin(History, "history", "history.id = emb.source_id")
+        .select(["history.content AS content", "history.name AS name", "history.timestamp AS sent_at", "emb.vector AS vector"])
+        .where("emb.source_type = 'message' AND emb.model = :model", { model })
+        .andWhere("history.chat_id = :chatId", { chatId: chatId.toString() });
+
+    if (skipRecent > 0) {
+        const boundary = await AppDataSource.getRepository(History).find({
+            where: { chat_id: chatId.toString() },
+            order: { id: "DESC" },
+            skip: skipRecent - 1,
+            take: 1
+        });
+        if (boundary.length === 0) return [];
+        query.andWhere("history.id < :boundary", { boundary: boundary[0].id });
+    }
+
+    return await query
+        .orderBy("history.id", "DESC")
+        .limit(limit)
+        .getRawMany();
+}
+
+/**
+ * Removes embeddings whose fact or message no longer exists. Returns how many were removed.
+ */
+export async function deleteOrphanEmbeddings(): Promise<number> {
+    const repo = AppDataSource.getRepository(MemoryEmbedding);
+    let removed = 0;
+    for (const [sourceType, table] of [["fact", "facts"], ["message", "history"]]) {
+        const result = await repo.createQueryBuilder()
+            .delete()
+            .where("source_type = :sourceType", { sourceType })
+            .andWhere(`source_id NOT IN (SELECT id FROM ${table})`)
+            .execute();
+        removed += result.affected ?? 0;
+    }
+    return removed;
+}
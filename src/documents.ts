@@ -0,0 +1,245 @@
+import { Api } from "grammy";
+import { findChatDocument } from "./db";
+import { downloadTelegramFile } from "./media";
+import { localEmbedding } from "./memory";
+import { policyFetch } from "./fetchPolicy";
+
+// --- Documents ---
+// read_document extracts the text of a file sent to the chat (or of a link to one) locally:
+// PDF via pdf-parse, DOCX via mammoth, plain text and Markdown as is. The text is split into
+// parts of about CHUNK_CHARS; the tool returns the parts related to a question or the parts
+// the model asks for. Extracted documents are cached in memory by file_unique_id or URL.
+
+const MAX_DOCUMENT_BYTES = 20 * 1024 * 1024; // Bot API download limit
+const MAX_TEXT_CHARS = 500000; // The rest of a huge document is cut off
+const CHUNK_CHARS = 3000;
+const MAX_RESULT_CHARS = 8000; // ai.ts truncates tool results at 10000
+const DOCUMENT_CACHE_SIZE = 10;
+const DOWNLOAD_TIMEOUT_MS = 20000;
+
+const TEXT_EXTENSIONS = new Set(["txt", "md", "markdown", "csv", "tsv", "json", "log", "yaml", "yml", "xml", "ini", "srt"]);
+const DOCX_MIME = "application/vnd.openxmlformats-officedocument.wordprocessingml.document";
+
+type DocumentFormat = "pdf" | "docx" | "text";
+
+type ExtractedDocument = {
+  name: string;
+  format: DocumentFormat;
+  pages?: number;
+  chars: number;
+  truncated: boolean;
+  chunks: string[];
+};
+
+const documentCache = new Map<string, ExtractedDocument>(); // file_unique_id or URL → document
+
+let api: Api | null = null;
+
+function getApi(): Api {
+  if (!api) api = new Api(process.env.BOT_TOKEN!);
+  return api;
+}
+
+function detectFormat(name: string, mimeType?: string | null): DocumentFormat | null {
+  const ext = name.includes(".") ? name.split(".").pop()!.toLowerCase() : "";
+  const mime = (mimeType || "").split(";")[0].trim().toLowerCase();
+
+  if (ext === "pdf" || mime === "application/pdf") return "pdf";
+  if (ext === "docx" || mime === DOCX_MIME) return "docx";
+  // Web pages are for extract_url_content
+  if (TEXT_EXTENSIONS.has(ext) || (mime.startsWith("text/") && mime !== "text/html") || mime === "application/json") return "text";
+  return null;
+}
+
+async function extractText(data: Buffer, format: DocumentFormat): Promise<{ text: string; pages?: number }> {
+  if (format === "pdf") {
+    // Loaded on first use, pdf.js is heavy
+    const { PDFParse } = await import("pdf-parse");
+    const parser = new PDFParse({ data });
+    try {
+      const result = await parser.getText({ pageJoiner: "\n[стр. page_number из total_number]" });
+      return { text: result.text, pages: result.total };
+    } finally {
+      await parser.destroy();
+    }
+  }
+  if (format === "docx") {
+    const mammoth = await import("mammoth");
+    return { text: (await mammoth.extractRawText({ buffer: data })).value };
+  }
+  return { text: data.toString("utf-8").replace(/^\uFEFF/, "") };
+}
+
+/**
+ * Splits text into parts of at most `size` characters, at paragraph breaks where possible
+ */
+export function chunkText(text: string, size: number = CHUNK_CHARS): string[] {
+  const chunks: string[] = [];
+  let current = "";
+
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const trimmed = paragraph.trim();
+    if (!trimmed) continue;
+
+    if (current && current.length + trimmed.length + 2 > size) {
+      chunks.push(current);
+      current = "";
+    }
+    if (trimmed.length <= size) {
+      current = current ? `${current}\n\n${trimmed}` : trimmed;
+      continue;
+    }
+    // A paragraph longer than a whole part is cut at the last line break or space
+    let rest = trimmed;
+    while (rest.length > size) {
+      const cut = Math.max(rest.lastIndexOf("\n", size), rest.lastIndexOf(" ", size));
+      const end = cut > size / 2 ? cut : size;
+      chunks.push(rest.slice(0, end).trim());
+      rest = rest.slice(end).trim();
+    }
+    current = rest;
+  }
+
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+async function extractDocument(data: Buffer, name: string, format: DocumentFormat): Promise<ExtractedDocument> {
+  const { text, pages } = await extractText(data, format);
+  const normalized = text.replace(/\r\n?/g, "\n").replace(/[ \t]+\n/g, "\n").trim();
+  const truncated = normalized.length > MAX_TEXT_CHARS;
+  return {
+    name,
+    format,
+    pages,
+    chars: Math.min(normalized.length, MAX_TEXT_CHARS),
+    truncated,
+    chunks: chunkText(normalized.slice(0, MAX_TEXT_CHARS)),
+  };
+}
+
+function cacheDocument(key: string, doc: ExtractedDocument) {
+  documentCache.set(key, doc);
+  if (documentCache.size > DOCUMENT_CACHE_SIZE) documentCache.delete(documentCache.keys().next().value!);
+}
+
+/**
+ * Downloads a document from a link. Returns an error message instead when it can't be read.
+ */
+async function fetchDocument(url: string): Promise<{ data: Buffer; name: string; mimeType: string | null } | string> {
+  // Size, redirects and private addresses are up to the fetch policy
+  const res = await policyFetch(url, { timeoutMs: DOWNLOAD_TIMEOUT_MS, maxBytes: MAX_DOCUMENT_BYTES });
+  if (res.status < 200 || res.status >= 300) return `Error: Download failed with status ${res.status}.`;
+
+  const name = decodeURIComponent(new URL(res.url).pathname.split("/").pop() || "") || url;
+  return { data: res.body, name, mimeType: res.contentType };
+}
+
+async function loadFromChat(chatId: number, ref?: string): Promise<ExtractedDocument | string> {
+  const doc = await findChatDocument(chatId, ref);
+  if (!doc) {
+    return ref
+      ? `Error: No file named "${ref}" was sent to this chat recently.`
+      : "Error: No files were sent to this chat recently. Ask the user to send the document or a link to it.";
+  }
+
+  const cached = documentCache.get(doc.file_unique_id);
+  if (cached) return cached;
+
+  const name = doc.file_name || "document";
+  const format = detectFormat(name, doc.mime_type);
+  if (!format) return `Error: Can't read "${name}": only PDF, DOCX, plain text and Markdown files are supported.`;
+  if ((doc.file_size ?? 0) > MAX_DOCUMENT_BYTES) return `Error: "${name}" is larger than ${MAX_DOCUMENT_BYTES / 1024 / 1024} MB.`;
+
+  const file = await downloadTelegramFile(getApi(), doc.file_id, MAX_DOCUMENT_BYTES);
+  if (!file) return `Error: "${name}" is too large to download.`;
+
+  const extracted = await extractDocument(file.data, name, format);
+  cacheDocument(doc.file_unique_id, extracted);
+  console.log(`[Docs][${chatId}] Extracted "${name}": ${extracted.chars} chars, ${extracted.chunks.length} part(s)`);
+  return extracted;
+}
+
+async function loadFromUrl(chatId: number, url: string): Promise<ExtractedDocument | string> {
+  const cached = documentCache.get(url);
+  if (cached) return cached;
+
+  const fetched = await fetchDocument(url);
+  if (typeof fetched === "string") return fetched;
+
+  const format = detectFormat(fetched.name, fetched.mimeType);
+  if (!format) return "Error: The link is not a PDF, DOCX or text file. Use extract_url_content for web pages.";
+
+  const extracted = await extractDocument(fetched.data, fetched.name, format);
+  cacheDocument(url, extracted);
+  console.log(`[Docs][${chatId}] Extracted ${url}: ${extracted.chars} chars, ${extracted.chunks.length} part(s)`);
+  return extracted;
+}
+
+/**
+ * Indexes of the parts most related to `query`, in document order, that fit in the result
+ */
+function selectRelevant(chunks: string[], query: string): number[] {
+  const queryVector = localEmbedding(query);
+  const ranked = chunks
+    .map((chunk, i) => ({ i, score: localEmbedding(chunk).reduce((sum, v, k) => sum + v * queryVector[k], 0) }))
+    .sort((a, b) => b.score - a.score);
+
+  const picked: number[] = [];
+  let size = 0;
+  for (const { i } of ranked) {
+    if (size + chunks[i].length > MAX_RESULT_CHARS) break;
+    picked.push(i);
+    size += chunks[i].length;
+  }
+  return picked.sort((a, b) => a - b);
+}
+
+/**
+ * Text for the read_document tool: a short header and either the parts related to `query`
+ * or consecutive parts starting from `part` (1-based)
+ */
+export async function readDocument(chatId: number, ref?: string, query?: string, part?: number): Promise<string> {
+  const source = ref?.trim();
+  let doc: ExtractedDocument | string;
+  try {
+    doc = source && /^https?:\/\//i.test(source)
+      ? await loadFromUrl(chatId, source)
+      : await loadFromChat(chatId, source);
+  } catch (e) {
+    // Broken or encrypted files, network errors
+    console.error(`[Docs][${chatId}] Failed to read ${source || "the latest document"}:`, e);
+    return `Error: Failed to read the document: ${(e as Error).message}`;
+  }
+  if (typeof doc === "string") return doc;
+
+  const total = doc.chunks.length;
+  if (total === 0) return `Document "${doc.name}" has no extractable text (a scan or images only?).`;
+
+  let indexes: number[];
+  if (query?.trim() && !part) {
+    indexes = selectRelevant(doc.chunks, query);
+  } else {
+    const start = Math.min(Math.max(1, Math.floor(part || 1)), total) - 1;
+    indexes = [];
+    let size = 0;
+    for (let i = start; i < total && (indexes.length === 0 || size + doc.chunks[i].length <= MAX_RESULT_CHARS); i++) {
+      indexes.push(i);
+      size += doc.chunks[i].length;
+    }
+  }
+
+  const info = [doc.format.toUpperCase(), doc.pages ? `${doc.pages} pages` : null, `${doc.chars} chars`, `${total} parts`].filter(Boolean).join(", ");
+  let result = `Document "${doc.name}" (${info}${doc.truncated ? ", only the beginning was read" : ""}).\n`;
+  for (const i of indexes) {
+    result += `\n[Part ${i + 1}/${total}]\n${doc.chunks[i].slice(0, MAX_RESULT_CHARS)}\n`;
+  }
+
+  const last = indexes[indexes.length - 1];
+  if (indexes.length < total) {
+    result += query?.trim() && !part
+      ? `\nOnly the parts closest to the question are shown; request others with 'part'.`
+      : last + 1 < total ? `\nContinues in part ${last + 2}.` : "";
+  }
+  return result;
+}
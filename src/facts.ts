@@ -0,0 +1,288 @@
+import { createChatCompletion } from "./providers";
+import { addFact, listFacts, replaceFacts, getUsersForFactCompaction, markFactsCompacted, Fact, FactOrigin, FactVisibility } from "./db";
+import { findSimilarFacts } from "./memory";
+
+// --- Fact Consolidation ---
+// save_memory and /remember go through saveFact: the new fact is compared with the user's
+// most similar facts and an LLM decides whether it repeats one (dropped), adds to them
+// (merged into one fact) or contradicts them (the old ones are superseded). A periodic job
+// (compactFacts) does the same for each user's whole list. Everything replaced is kept in
+// fact_revisions. FACT_CONSOLIDATION=off turns both off and facts are just appended.
+// Facts only consolidate within one scope (same visibility and chat), so a private fact
+// never ends up merged into one that is shown everywhere.
+
+const ENABLED = (process.env.FACT_CONSOLIDATION || "on").toLowerCase() !== "off";
+const CANDIDATES = 8; // Most similar existing facts shown to the LLM on save
+const COMPACTION_MIN_FACTS = 3;
+const COMPACTION_USERS_PER_RUN = 10;
+const COMPACTION_MAX_FACTS = 60; // Facts per LLM call
+const MAX_FACT_LENGTH = 500;
+
+export type SaveFactResult = {
+  id: number;
+  action: "added" | "duplicate" | "merged" | "superseded";
+  replaced: string[]; // Texts of the facts that were merged or superseded
+};
+
+type Decision = {
+  action: "add" | "duplicate" | "merge" | "supersede";
+  ids: number[];
+  text?: string;
+};
+
+type CompactionGroup = {
+  action: "duplicate" | "merge" | "supersede";
+  ids: number[];
+  text: string;
+};
+
+function scopeKey(visibility: FactVisibility, chatId?: string | number | null): string {
+  return visibility === "global" ? "global" : `${visibility}:${chatId ?? ""}`;
+}
+
+/**
+ * Visibility for a fact when neither the model nor the user chose one: what someone says
+ * about themselves in a private chat stays private, everything else stays in its chat
+ */
+export function defaultVisibility(chatId: number, subjectId: number): FactVisibility {
+  return chatId === subjectId ? "private" : "chat";
+}
+
+/**
+ * Lowercase, no punctuation, "ё" as "е": catches trivial duplicates without asking the LLM
+ */
+function normalizeFact(text: string): string {
+  return text.toLowerCase().replace(/ё/g, "е").replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
+
+function describeFact(f: { id: number; fact: string; expires_at?: Date | null }): string {
+  return `#${f.id} ${f.fact}${f.expires_at ? " (временный)" : ""}`;
+}
+
+/**
+ * The first JSON object in an LLM answer (models like to wrap it in ```json fences or prose)
+ */
+function parseJsonObject(content: string | null | undefined): any {
+  const match = content?.match(/\{[\s\S]*\}/);
+  if (!match) return null;
+  try {
+    return JSON.parse(match[0]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Expiry of a fact made of several: permanent if any part is, otherwise the latest one
+ */
+function combinedExpiry(expiries: (Date | null | undefined)[]): Date | null {
+  if (expiries.some(e => !e)) return null;
+  return new Date(Math.max(...expiries.map(e => new Date(e!).getTime())));
+}
+
+async function decide(newFact: string, temporary: boolean, candidates: Fact[]): Promise<Decision | null> {
+  const prompt = `
+    Ты ведешь список фактов о пользователе. Нужно сохранить новый факт${temporary ? " (временный)" : ""}: "${newFact}"
+    Уже известные факты:
+    ${candidates.map(describeFact).join("\n    ")}
+
+    Определи, как новый факт соотносится с известными, и ответь только JSON:
+    {"action": "add" | "duplicate" | "merge" | "supersede", "ids": [номера фактов], "text": "итоговая формулировка"}
+    - add: новый факт ни с чем не пересекается (ids пустой).
+    - duplicate: то же самое уже известно, хоть и другими словами (ids - совпадающие факты).
+    - merge: факт дополняет известные - объедини их в одну короткую формулировку text (ids - объединяемые факты).
+    - supersede: факт противоречит известным, например человек переехал или передумал; новый факт заменяет устаревшие (ids - устаревшие факты).
+    Временный факт не заменяет и не поглощает постоянный. Если сомневаешься - add.
+  `;
+
+  const response = await createChatCompletion("summary", {
+    messages: [{ role: "system", content: prompt }],
+    temperature: 0,
+    max_tokens: 300,
+  });
+
+  const parsed = parseJsonObject(response.choices[0]?.message?.content);
+  if (!parsed || !["add", "duplicate", "merge", "supersede"].includes(parsed.action)) return null;
+
+  const known = new Set(candidates.map(c => c.id));
+  const ids = (Array.isArray(parsed.ids) ? parsed.ids : []).map(Number).filter((id: number) => known.has(id));
+  const text = typeof parsed.text === "string" ? parsed.text.trim().slice(0, MAX_FACT_LENGTH) : undefined;
+
+  // Anything but "add" has to point at real facts, and a merge needs the merged text
+  if (parsed.action !== "add" && ids.length === 0) return null;
+  if (parsed.action === "merge" && !text) return null;
+  return { action: parsed.action, ids, text };
+}
+
+/**
+ * Saves a fact about the user, merging it with or letting it supersede similar facts in the
+ * same scope. `origin` says who told it and in which chat (the visibility defaults from that).
+ * Falls back to a plain addFact when consolidation is off or the LLM gives no usable answer.
+ */
+export async function saveFact(userId: number, fact: string, ttlSeconds?: number, origin: FactOrigin = {}): Promise<SaveFactResult> {
+  const expiresAt = ttlSeconds ? new Date(Date.now() + ttlSeconds * 1000) : null;
+  const visibility = origin.visibility ?? (origin.chatId ? defaultVisibility(Number(origin.chatId), userId) : "global");
+  origin = { ...origin, visibility };
+
+  const scope = scopeKey(visibility, origin.chatId);
+  const facts = (await listFacts(userId)).filter(f => scopeKey(f.visibility, f.chat_id) === scope);
+
+  const same = facts.find(f => normalizeFact(f.fact) === normalizeFact(fact));
+  if (same && same.fact !== fact) {
+    return { id: await refreshDuplicate(userId, same, fact, expiresAt), action: "duplicate", replaced: [] };
+  }
+  if (same || !ENABLED || facts.length === 0) {
+    // addFact handles exact repeats itself by refreshing the expiry
+    return { id: await addFact(userId, fact, ttlSeconds, origin), action: same ? "duplicate" : "added", replaced: [] };
+  }
+
+  let decision: Decision | null = null;
+  try {
+    const similar = await findSimilarFacts(userId, facts, fact, CANDIDATES);
+    const candidates = similar.map(s => facts.find(f => f.id === s.id)!).filter(Boolean);
+    decision = await decide(fact, expiresAt !== null, candidates);
+  } catch (e) {
+    console.error(`[Facts] Consolidation failed for user ${userId}, saving as is:`, e);
+  }
+
+  if (!decision || decision.action === "add") {
+    return { id: await addFact(userId, fact, ttlSeconds, origin), action: "added", replaced: [] };
+  }
+
+  const targets = facts.filter(f => decision!.ids.includes(f.id));
+  console.log(`[Facts] ${decision.action} for user ${userId}: "${fact}" vs ${targets.map(t => `#${t.id}`).join(", ")}`);
+
+  if (decision.action === "duplicate") {
+    return { id: await refreshDuplicate(userId, targets[0], fact, expiresAt), action: "duplicate", replaced: [] };
+  }
+
+  if (decision.action === "merge") {
+    const id = await replaceFacts(userId, {
+      action: "merged",
+      text: decision.text!,
+      expiresAt: combinedExpiry([expiresAt, ...targets.map(t => t.expires_at)]),
+      replacedIds: targets.map(t => t.id),
+      origin,
+    });
+    return { id, action: "merged", replaced: targets.map(t => t.fact) };
+  }
+
+  const id = await replaceFacts(userId, {
+    action: "superseded",
+    text: fact,
+    expiresAt,
+    replacedIds: targets.map(t => t.id),
+    origin,
+  });
+  return { id, action: "superseded", replaced: targets.map(t => t.fact) };
+}
+
+/**
+ * Keeps the existing fact, extending its expiry if the repeated one lasts longer
+ */
+async function refreshDuplicate(userId: number, existing: Fact, repeated: string, expiresAt: Date | null): Promise<number> {
+  const expiry = existing.expires_at ? combinedExpiry([existing.expires_at, expiresAt]) : null;
+  return await replaceFacts(userId, {
+    action: "duplicate",
+    text: existing.fact,
+    expiresAt: expiry,
+    replacedIds: [],
+    keepId: existing.id,
+    discarded: repeated,
+  });
+}
+
+// --- Compaction ---
+
+async function planCompaction(facts: Fact[]): Promise<CompactionGroup[]> {
+  const prompt = `
+    Вот список фактов об одном пользователе:
+    ${facts.map(describeFact).join("\n    ")}
+
+    Найди повторы, факты, которые стоит объединить, и противоречия. Ответь только JSON:
+    {"groups": [{"action": "duplicate" | "merge" | "supersede", "ids": [номера фактов], "text": "итоговая формулировка"}]}
+    - duplicate: факты говорят одно и то же; text - лучшая формулировка.
+    - merge: факты об одном и дополняют друг друга; text - одна короткая формулировка вместо них.
+    - supersede: факты противоречат друг другу; text - актуальный вариант (обычно факт с большим номером, он новее).
+    Каждая группа - минимум два факта, каждый факт не более чем в одной группе. Временный факт не поглощает постоянный.
+    Если менять нечего, верни {"groups": []}.
+  `;
+
+  const response = await createChatCompletion("summary", {
+    messages: [{ role: "system", content: prompt }],
+    temperature: 0,
+    max_tokens: 2000,
+  });
+
+  const parsed = parseJsonObject(response.choices[0]?.message?.content);
+  if (!parsed || !Array.isArray(parsed.groups)) return [];
+
+  const known = new Set(facts.map(f => f.id));
+  const used = new Set<number>();
+  const groups: CompactionGroup[] = [];
+
+  for (const group of parsed.groups) {
+    if (!["duplicate", "merge", "supersede"].includes(group?.action) || typeof group.text !== "string" || !group.text.trim()) continue;
+    const ids = [...new Set<number>((Array.isArray(group.ids) ? group.ids : []).map(Number))];
+    if (ids.length < 2 || ids.some(id => !known.has(id) || used.has(id))) continue;
+
+    ids.forEach(id => used.add(id));
+    groups.push({ action: group.action, ids, text: group.text.trim().slice(0, MAX_FACT_LENGTH) });
+  }
+  return groups;
+}
+
+/**
+ * Consolidates one user's fact list, scope by scope. Returns how many facts were removed.
+ */
+export async function compactUserFacts(userId: number): Promise<number> {
+  const scopes = new Map<string, Fact[]>();
+  for (const fact of await listFacts(userId)) {
+    const key = scopeKey(fact.visibility, fact.chat_id);
+    scopes.set(key, [...(scopes.get(key) || []), fact]);
+  }
+
+  let removed = 0;
+  for (const scopeFacts of scopes.values()) {
+    const facts = scopeFacts.slice(-COMPACTION_MAX_FACTS);
+    if (facts.length < 2) continue;
+
+    for (const group of await planCompaction(facts)) {
+      const members = facts.filter(f => group.ids.includes(f.id));
+      // Reuse a fact that already has the chosen wording, so its id stays the same
+      const keep = members.find(f => f.fact === group.text);
+      // Attributed only if one person told all of it; a fact merged from several reports has no single source
+      const reporters = new Set(members.map(m => m.reporter_id ?? null));
+      const reporterId = reporters.size === 1 && members[0].reporter_id ? Number(members[0].reporter_id) : undefined;
+
+      await replaceFacts(userId, {
+        action: group.action === "merge" ? "merged" : group.action === "supersede" ? "superseded" : "duplicate",
+        text: group.text,
+        expiresAt: combinedExpiry(members.map(m => m.expires_at)),
+        replacedIds: members.map(m => m.id),
+        keepId: keep?.id,
+        origin: { chatId: members[0].chat_id, visibility: members[0].visibility, reporterId },
+      });
+      removed += members.length - 1;
+    }
+  }
+  return removed;
+}
+
+/**
+ * Periodic task: compacts the fact lists of users who got new facts since the last run
+ */
+export async function compactFacts() {
+  if (!ENABLED) return;
+
+  for (const userId of await getUsersForFactCompaction(COMPACTION_MIN_FACTS, COMPACTION_USERS_PER_RUN)) {
+    try {
+      const removed = await compactUserFacts(userId);
+      if (removed > 0) console.log(`[Facts] Compacted facts of user ${userId}: ${removed} fewer fact(s)`);
+    } catch (e) {
+      console.error(`[Facts] Compaction failed for user ${userId}:`, e);
+    }
+    // Marked even after a failure, so one broken list doesn't block the others every run
+    await markFactsCompacted(userId);
+  }
+}
@@ -0,0 +1,244 @@
+import * as dns from "dns";
+import * as http from "http";
+import * as https from "https";
+import * as net from "net";
+
+// --- Fetch Policy ---
+// Every URL a tool fetches comes from the model, i.e. from any chat member, so it must not
+// reach the bot's own network: only http(s), no private, loopback or link-local addresses
+// (checked on every DNS lookup, so redirects and DNS rebinding are covered too), a limited
+// number of redirects, a size cap and an optional content-type filter. FETCH_ALLOWED_DOMAINS
+// restricts fetching to some domains, FETCH_BLOCKED_DOMAINS excludes some.
+
+const ALLOWED_PROTOCOLS = ["http:", "https:"];
+const MAX_BYTES = Number(process.env.FETCH_MAX_BYTES) || 20 * 1024 * 1024;
+const MAX_REDIRECTS = Number(process.env.FETCH_MAX_REDIRECTS) || 5;
+const DEFAULT_TIMEOUT_MS = 15000;
+// For local development only: lets tools reach localhost and the LAN
+const ALLOW_PRIVATE = process.env.FETCH_ALLOW_PRIVATE_NETWORKS === "true";
+
+function parseDomains(value?: string): string[] {
+  return (value || "").split(",").map(d => d.trim().toLowerCase().replace(/^\*?\./, "")).filter(Boolean);
+}
+
+const ALLOWED_DOMAINS = parseDomains(process.env.FETCH_ALLOWED_DOMAINS);
+const BLOCKED_DOMAINS = parseDomains(process.env.FETCH_BLOCKED_DOMAINS);
+
+// Addresses that aren't the public internet: this host, private networks, cloud metadata
+// (169.254.169.254), carrier NAT, documentation and multicast ranges
+const BLOCKED_RANGES = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+  ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.0.2.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15],
+  ["198.51.100.0", 24], ["203.0.113.0", 24], ["224.0.0.0", 4], ["240.0.0.0", 4],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv4");
+}
+// No rule for IPv4-mapped addresses (::ffff:0:0/96): BlockList checks them against the IPv4
+// rules above, and it also matches every IPv4 address against such a rule
+for (const [network, prefix] of [
+  ["::", 96], // Unspecified, loopback and IPv4-compatible
+  ["64:ff9b::", 96], ["64:ff9b:1::", 48], // NAT64
+  ["100::", 64], ["2001:db8::", 32], ["fc00::", 7], ["fe80::", 10], ["fec0::", 10], ["ff00::", 8],
+] as const) {
+  BLOCKED_RANGES.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * A request the policy refuses (as opposed to a network error), with a reason for the model
+ */
+export class FetchBlockedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FetchBlockedError";
+  }
+}
+
+export type PolicyResponse = {
+  url: string; // After redirects
+  status: number;
+  contentType: string | null;
+  body: Buffer;
+};
+
+export type PolicyFetchOptions = {
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  maxBytes?: number; // Capped by FETCH_MAX_BYTES
+  // Accepted media types ("text/html") or prefixes ("text/"); anything else is refused
+  contentTypes?: string[];
+};
+
+export function isBlockedAddress(address: string): boolean {
+  if (ALLOW_PRIVATE) return false;
+  const family = net.isIP(address);
+  if (family === 0) return true;
+  return BLOCKED_RANGES.check(address, family === 6 ? "ipv6" : "ipv4");
+}
+
+function matchesDomain(hostname: string, domains: string[]): boolean {
+  return domains.some(d => hostname === d || hostname.endsWith(`.${d}`));
+}
+
+/**
+ * Checks what can be checked without connecting: scheme, domain lists and literal IPs.
+ * Throws FetchBlockedError.
+ */
+export function checkUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw new FetchBlockedError(`Invalid URL: ${url}`);
+  }
+
+  if (!ALLOWED_PROTOCOLS.includes(parsed.protocol)) {
+    throw new FetchBlockedError(`Only http and https links are allowed, got ${parsed.protocol}`);
+  }
+  if (parsed.username || parsed.password) {
+    throw new FetchBlockedError("Links with credentials are not allowed");
+  }
+
+  // IPv6 literals come in brackets; WHATWG URL already turned "0x7f.1" and the like into dotted IPv4
+  const hostname = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (net.isIP(hostname)) {
+    if (isBlockedAddress(hostname)) throw new FetchBlockedError(`Address ${hostname} is not public`);
+  } else {
+    if (hostname === "localhost" || hostname.endsWith(".localhost") || hostname.endsWith(".local") || hostname.endsWith(".internal")) {
+      if (!ALLOW_PRIVATE) throw new FetchBlockedError(`Host ${hostname} is not public`);
+    }
+    if (matchesDomain(hostname, BLOCKED_DOMAINS)) throw new FetchBlockedError(`Domain ${hostname} is blocked`);
+  }
+  if (ALLOWED_DOMAINS.length > 0 && !matchesDomain(hostname, ALLOWED_DOMAINS)) {
+    throw new FetchBlockedError(`Domain ${hostname} is not in the allowed list`);
+  }
+  return parsed;
+}
+
+// What dns.lookup calls back with: one address and its family, or every address when `all` is set
+type LookupCallback = (err: NodeJS.ErrnoException | null, address?: string | dns.LookupAddress[], family?: number) => void;
+
+/**
+ * dns.lookup that fails for non-public addresses. Pass it as `lookup` (node http) or
+ * `dnsLookup` (got): the check then happens for the address actually connected to.
+ */
+export const guardedLookup = ((hostname: string, options: dns.LookupOptions | number | LookupCallback, callback?: LookupCallback) => {
+  if (typeof options === "function") {
+    callback = options;
+    options = {};
+  }
+  const lookupOptions: dns.LookupOptions = typeof options === "number" ? { family: options } : options;
+  const done = callback!;
+  dns.lookup(hostname, { ...lookupOptions, all: true }, (err, addresses) => {
+    if (err) return done(err);
+    const blocked = addresses.find(a => isBlockedAddress(a.address));
+    if (blocked) return done(new FetchBlockedError(`Host ${hostname} resolves to a non-public address ${blocked.address}`));
+    if (addresses.length === 0) return done(new Error(`No addresses for ${hostname}`));
+    if (lookupOptions.all) return done(null, addresses);
+    done(null, addresses[0].address, addresses[0].family);
+  });
+}) as typeof dns.lookup;
+
+/**
+ * The refusal for a response over the size cap
+ */
+export function tooLarge(maxBytes: number): FetchBlockedError {
+  const limit = maxBytes >= 1024 * 1024 ? `${Math.round(maxBytes / 1024 / 1024)} MB` : `${Math.ceil(maxBytes / 1024)} KB`;
+  return new FetchBlockedError(`Response is larger than ${limit}`);
+}
+
+export function isAllowedContentType(contentType: string | null, allowed?: string[]): boolean {
+  if (!allowed) return true;
+  const type = (contentType || "").split(";")[0].trim().toLowerCase();
+  // No header at all: let the caller sniff the body
+  if (!type) return true;
+  return allowed.some(a => a.endsWith("/") ? type.startsWith(a) : type === a);
+}
+
+/**
+ * Effective size cap: the caller's, but never above FETCH_MAX_BYTES
+ */
+export function maxResponseBytes(requested?: number): number {
+  return Math.min(requested ?? MAX_BYTES, MAX_BYTES);
+}
+
+function requestOnce(url: URL, options: PolicyFetchOptions, deadline: number): Promise<PolicyResponse & { location?: string }> {
+  const maxBytes = maxResponseBytes(options.maxBytes);
+  const client = url.protocol === "https:" ? https : http;
+
+  return new Promise((resolve, reject) => {
+    const req = client.get(url, {
+      headers: options.headers,
+      lookup: guardedLookup,
+      signal: AbortSignal.timeout(Math.max(1, deadline - Date.now())),
+    }, (res) => {
+      const status = res.statusCode || 0;
+      const contentType = res.headers["content-type"] ?? null;
+
+      if (status >= 300 && status < 400 && res.headers.location) {
+        res.resume();
+        return resolve({ url: url.toString(), status, contentType, body: Buffer.alloc(0), location: res.headers.location });
+      }
+      if (status >= 200 && status < 300 && !isAllowedContentType(contentType, options.contentTypes)) {
+        res.destroy();
+        return reject(new FetchBlockedError(`Unsupported content type ${contentType}`));
+      }
+      if (Number(res.headers["content-length"]) > maxBytes) {
+        res.destroy();
+        return reject(tooLarge(maxBytes));
+      }
+
+      const chunks: Buffer[] = [];
+      let size = 0;
+      res.on("data", (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > maxBytes) {
+          res.destroy();
+          reject(tooLarge(maxBytes));
+          return;
+        }
+        chunks.push(chunk);
+      });
+      res.on("end", () => resolve({ url: url.toString(), status, contentType, body: Buffer.concat(chunks) }));
+      res.on("error", reject);
+    });
+    req.on("error", reject);
+  });
+}
+
+/**
+ * GET a URL under the policy, following redirects (each hop is checked again).
+ * Throws FetchBlockedError when the policy refuses, other errors for network failures.
+ * Non-2xx responses are returned, not thrown.
+ */
+export async function policyFetch(url: string, options: PolicyFetchOptions = {}): Promise<PolicyResponse> {
+  const deadline = Date.now() + (options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  let current = checkUrl(url);
+
+  for (let hop = 0; ; hop++) {
+    const response = await requestOnce(current, options, deadline);
+    if (!response.location) return response;
+
+    if (hop >= MAX_REDIRECTS) throw new FetchBlockedError(`Too many redirects (more than ${MAX_REDIRECTS})`);
+    current = checkUrl(new URL(response.location, current).toString());
+  }
+}
+
+/**
+ * Policy options for got / got-scraping: guarded DNS, no HTTP/2 (its sessions bypass the
+ * lookup), the redirect limit and a check of every redirect target. got-scraping probes
+ * https hosts for HTTP/2 before the request with a connection of its own, which would skip
+ * the lookup too; without HTTP/2 the answer is known, so resolveProtocol skips the probe.
+ */
+export function gotPolicyOptions() {
+  return {
+    dnsLookup: guardedLookup,
+    http2: false,
+    maxRedirects: MAX_REDIRECTS,
+    hooks: {
+      // Not a got option, so it can't be passed directly; got-scraping reads it from the options
+      init: [(_raw: unknown, options: object) => { Object.assign(options, { resolveProtocol: () => ({ alpnProtocol: "http/1.1" }) }); }],
+      beforeRedirect: [(options: { url?: URL | string }) => { checkUrl(String(options.url)); }],
+    },
+  };
+}
@@ -1,8 +1,23 @@
 import "dotenv/config";
 import "reflect-metadata";
-import { Bot, Context } from "grammy";
+import { Bot, Context, Filter, GrammyError, InlineKeyboard } from "grammy";
 import { run } from "@grammyjs/runner";
-import { upsertUser, addMessage, getHistory, getFacts, upsertChatSettings, getChatSettings, getReputation, initDB, getChatSummary, getRelationships, getUser, addReminder, getPendingReminders, markReminderSent, shouldReplyPassive } from "./db";
+import { upsertUser, addMessage, updateMessageContent, addChatDocument, getHistory, getFacts, upsertChatSettings, getChatSettings, getReputation, initDB, getChatSummary, getRelationships, getUser, addReminder, getPendingReminders, markReminderSent, getReminder, listReminders, cancelReminder, snoozeReminder, rescheduleReminder, setReminderRecurrence, resolveTimezone, setChatTimezone, setUserTimezone, setQuietHours, setMutedUntil, setLinkSummaries, setLinkRules, shouldReplyPassive, setToolEnabled, setMemberSettings, listFacts, attributeFacts, setFactVisibility, FactVisibility, deleteFactById, deleteAllFacts, listFactRevisions, Reminder } from "./db";
+import { getTool, listToolNames, ReminderHandler } from "./registry";
+import { enqueueChatTask, getQueueDepth, getQueueStats, ChatTask } from "./queue";
+import { startHttpServer } from "./server";
+import { requireSettingPermission, requireAdmin, DELEGABLE_SETTINGS, SettingKey } from "./permissions";
+import { sendSettingsPanel, registerSettingsPanel } from "./settingsPanel";
+import { registerUserDataCommands } from "./userData";
+import { parseDuration, formatDateTime, parseReminderTime, parseEndDate, normalizeTimezone, parseTimeRange, isWithinLocalWindow, nextLocalTime, DEFAULT_TIMEZONE } from "./time";
+import { getQuietState, isMuted } from "./quiet";
+import { indexPendingMemories, cleanupMemoryIndex, recallMemories, formatMemories } from "./memory";
+import { saveFact, compactFacts } from "./facts";
+import { describeMessage, getImageFileId, historyToMessages } from "./media";
+import { hasSpeech, transcribeMessage } from "./speech";
+import { LINK_MODES, LINK_MODE_LABELS, LinkMode, PlannedLink, LinkSummary, parseDomain, withDomainRule, planLinkSummaries, summarizeLink, formatLinkReply, formatLinkNote, cleanupLinkPreviews } from "./links";
+import { Recurrence, isValidRule, nextOccurrence, advanceRecurrence, describeRule } from "./recurrence";
+import { registerJobHandler, registerPeriodicTask, scheduleJob, getJob, updateJobPayload, cancelJob, startScheduler } from "./scheduler";
 import { generateResponse, summarizeHistory, BotResponse } from "./ai";
 import OpenAI from "openai";
 
@@ -14,37 +29,20 @@ if (!BOT_TOKEN) {
 
 const bot = new Bot(BOT_TOKEN);
 
-// --- Chat Processing Lock System ---
-const processingChats = new Set<number>();
-
-function isProcessing(chatId: number): boolean {
-    return processingChats.has(chatId);
-}
-
-function lockChat(chatId: number): boolean {
-    if (processingChats.has(chatId)) {
-        return false; // Already locked
-    }
-    processingChats.add(chatId);
-    return true; // Successfully locked
-}
-
-function unlockChat(chatId: number): void {
-    processingChats.delete(chatId);
-}
-
 // Base System Prompt
-const getBaseSystemPrompt = () => {
+const getBaseSystemPrompt = (timeZone: string = DEFAULT_TIMEZONE) => {
   const now = new Date();
   const currentDate = now.toLocaleDateString('ru-RU', { 
     weekday: 'long', 
     year: 'numeric', 
     month: 'long', 
-    day: 'numeric' 
+    day: 'numeric',
+    timeZone
   });
   const currentTime = now.toLocaleTimeString('ru-RU', { 
     hour: '2-digit', 
-    minute: '2-digit' 
+    minute: '2-digit',
+    timeZone
   });
 
   return process.env.SYSTEM_PROMPT || 
@@ -66,22 +64,25 @@ const getBaseSystemPrompt = () => {
    - Когда просят мем, картинку, гиф - ОБЯЗАТЕЛЬНО используй get_funny_image(keyword="...")
    - После вызова get_funny_image напиши короткую саркастичную подпись к фото
    - Когда спрашивают про сайт или ссылку - используй extract_url_content(url="...")
+   - Когда спрашивают про файл из чата ([файл: ...]) или ссылку на PDF/DOCX - используй read_document(document="имя файла или ссылка", query="вопрос")
    - Когда нужна актуальная инфа - используй search_web(query="...")
    - НЕ пиши названия функций как текст! Используй их как инструменты!
    - Всегда используй инструменты, когда они подходят к запросу!`;
 };
 
-const getPassiveSystemPrompt = () => {
+const getPassiveSystemPrompt = (timeZone: string = DEFAULT_TIMEZONE) => {
   const now = new Date();
   const currentDate = now.toLocaleDateString('ru-RU', { 
     weekday: 'long', 
     year: 'numeric', 
     month: 'long', 
-    day: 'numeric' 
+    day: 'numeric',
+    timeZone
   });
   const currentTime = now.toLocaleTimeString('ru-RU', { 
     hour: '2-digit', 
-    minute: '2-digit' 
+    minute: '2-digit',
+    timeZone
   });
 
   return `
@@ -91,6 +92,7 @@ const getPassiveSystemPrompt = () => {
 
 ПРАВИЛА ЗАПОМИНАНИЯ:
 - Если кто-то упоминает планы (поход к врачу, игра, поездка, день рождения), используй 'save_memory'
+- Если рассказывают о другом участнике чата, сохрани факт о нем: 'save_memory' с subject (его ID или @username)
 - Запоминай только ВАЖНЫЕ вещи, не каждую мелочь
 
 ПРАВИЛА НАПОМИНАНИЙ:
@@ -220,31 +222,115 @@ async function safeSendMessage(chatId: string | number, text: string, extra: any
 }
 
 // --- Reminder Checker ---
+
+/**
+ * Sends a due reminder and marks it sent, or moves a recurring one to its next occurrence
+ */
+async function deliverReminder(rem: Reminder) {
+    console.log(`[Reminder] Sending reminder ${rem.id} to chat ${rem.chat_id}`);
+    const user = await getUser(parseInt(rem.user_id));
+
+    // Clean up name: handle emojis or empty names
+    let userName = user?.first_name || "друг";
+    if (userName.includes("??") || userName.length < 2) {
+        userName = user?.username ? `@${user.username}` : "друг";
+    }
+
+    // Просто отправляем текст напоминания как есть, без лишних префиксов
+    // Текст уже должен быть естественным сообщением от AI
+    await safeSendMessage(rem.chat_id, rem.text, { reply_markup: snoozeKeyboard(rem.id) });
+    await addMessage(parseInt(rem.chat_id), "assistant", rem.text);
+
+    if (!rem.recurrence) {
+        await markReminderSent(rem.id);
+        return;
+    }
+
+    // Recurring: move to the next occurrence until it runs out
+    const timeZone = await resolveTimezone(parseInt(rem.chat_id), parseInt(rem.user_id));
+    const next = advanceRecurrence(rem.recurrence, new Date(rem.due_at), new Date(), timeZone, rem.ends_at && new Date(rem.ends_at), rem.remaining_count);
+
+    if (!next) {
+        console.log(`[Reminder] Recurring reminder ${rem.id} finished`);
+        await markReminderSent(rem.id);
+    } else {
+        console.log(`[Reminder] Recurring reminder ${rem.id} rescheduled to ${next.dueAt.toISOString()}`);
+        await rescheduleReminder(rem.id, next.dueAt, next.remainingCount);
+    }
+}
+
 async function checkReminders() {
     try {
         const pending = await getPendingReminders();
+        const quietChats = new Map<string, boolean>();
         for (const rem of pending) {
-            console.log(`[Reminder] Sending reminder ${rem.id} to chat ${rem.chat_id}`);
-            const user = await getUser(parseInt(rem.user_id));
-            
-            // Clean up name: handle emojis or empty names
-            let userName = user?.first_name || "друг";
-            if (userName.includes("??") || userName.length < 2) {
-                userName = user?.username ? `@${user.username}` : "друг";
+            // Non-urgent reminders wait (still due) until the chat's quiet hours or mute end
+            if (!rem.urgent) {
+                if (!quietChats.has(rem.chat_id)) {
+                    quietChats.set(rem.chat_id, (await getQuietState(parseInt(rem.chat_id))) !== null);
+                }
+                if (quietChats.get(rem.chat_id)) continue;
+            }
+
+            try {
+                await deliverReminder(rem);
+            } catch (e) {
+                // The bot was blocked or removed, or the chat is gone: retrying won't help
+                if (e instanceof GrammyError && (e.error_code === 403 || e.error_code === 400)) {
+                    console.warn(`[Reminder] Dropping reminder ${rem.id}, chat ${rem.chat_id} is unreachable: ${e.description}`);
+                    await markReminderSent(rem.id).catch(() => {});
+                } else {
+                    console.error(`[Reminder] Failed to send reminder ${rem.id}, will retry:`, e);
+                }
             }
-            
-            // Просто отправляем текст напоминания как есть, без лишних префиксов
-            // Текст уже должен быть естественным сообщением от AI
-            await safeSendMessage(rem.chat_id, rem.text);
-            await markReminderSent(rem.id);
-            await addMessage(parseInt(rem.chat_id), "assistant", rem.text);
         }
     } catch (e) {
         console.error("[Reminder] Error checking reminders:", e);
     }
 }
 
-setInterval(checkReminders, 30000); // Check every 30 seconds
+registerPeriodicTask("reminders", 30000, checkReminders); // Check every 30 seconds
+registerPeriodicTask("memory_index", 60000, indexPendingMemories);
+registerPeriodicTask("memory_cleanup", 1000 * 60 * 60 * 6, cleanupMemoryIndex);
+registerPeriodicTask("fact_compaction", 1000 * 60 * 60, compactFacts);
+registerPeriodicTask("link_preview_cleanup", 1000 * 60 * 60 * 6, cleanupLinkPreviews);
+
+const SNOOZE_OPTIONS: [string, number][] = [["10 мин", 600], ["1 час", 3600], ["Завтра", 86400]];
+
+function snoozeKeyboard(reminderId: number): InlineKeyboard {
+    const keyboard = new InlineKeyboard();
+    for (const [label, seconds] of SNOOZE_OPTIONS) {
+        keyboard.text(`⏰ ${label}`, `reminder:snooze:${reminderId}:${seconds}`);
+    }
+    return keyboard;
+}
+
+// Snooze buttons under delivered reminders. Only the person the reminder is for can use them.
+bot.callbackQuery(/^reminder:snooze:(\d+):(\d+)$/, async (ctx) => {
+    const reminderId = parseInt(ctx.match[1]);
+    const seconds = parseInt(ctx.match[2]);
+
+    const reminder = await getReminder(reminderId);
+    if (!reminder) {
+        await ctx.editMessageReplyMarkup().catch(() => {});
+        return ctx.answerCallbackQuery({ text: "Это напоминание уже удалено." });
+    }
+    if (reminder.user_id !== ctx.from.id.toString()) {
+        return ctx.answerCallbackQuery({ text: "Это не твое напоминание.", show_alert: true });
+    }
+
+    const dueAt = new Date(Date.now() + seconds * 1000);
+    if (reminder.recurrence) {
+        // Snoozing a recurring reminder must not move its schedule: the repeat is a one-off copy
+        const copy = await addReminder(parseInt(reminder.chat_id), ctx.from.id, reminder.text, dueAt, undefined, reminder.urgent);
+        if (!copy) return ctx.answerCallbackQuery({ text: "У тебя уже слишком много напоминаний в этом чате.", show_alert: true });
+    } else {
+        await snoozeReminder(reminderId, dueAt);
+    }
+    await ctx.editMessageReplyMarkup().catch(() => {});
+    const timeZone = await resolveTimezone(parseInt(reminder.chat_id), ctx.from.id);
+    await ctx.answerCallbackQuery({ text: `Напомню ${formatDateTime(dueAt, timeZone)}` });
+});
 
 // --- Commands ---
 
@@ -265,12 +351,30 @@ bot.command("commands", (ctx) => {
         "📜 **Список команд:**\n\n" +
         "👤 **Пользователь:**\n" +
         "/me — Твоя репутация и факты о тебе.\n" +
+        "/memory [history] — Факты о тебе с id и сроком (history — что объединено или заменено).\n" +
+        "/remember [private|chat|global] <текст> [срок] — Запомнить факт (срок: 2h, 3d, 1w).\n" +
+        "/visibility <id> <private|chat|global> — Где можно упоминать факт.\n" +
+        "/export_my_data — Архив всего, что я о тебе храню (в личку).\n" +
+        "/delete_my_data — Удалить всё, что я о тебе храню.\n" +
+        "/forget <id|all> — Забыть факт или всё.\n" +
+        "/remind [срочно] <когда> <текст> — Напомнить (через 2 часа, завтра в 9:00, in 30m).\n" +
+        "/reminders — Твои напоминания в этом чате.\n" +
+        "/cancel_reminder <id> — Отменить напоминание.\n" +
+        "/repeat <id> <daily|weekly|cron|off> [until дата] [xN] — Повторять напоминание.\n" +
         "/rel — Отношения между пользователями в этом чате.\n\n" +
         "⚙️ **Настройки (для чата):**\n" +
-        "/settings — Текущие настройки чата.\n" +
+        "/settings — Настройки чата (кнопками).\n" +
         "/set_temp <0.1-1.5> — Уровень безумия.\n" +
         "/set_mood <mood> — Мое настроение (neutral, playful, flirty, angry, toxic, sad).\n" +
-        "/set_chance <0-100> — Как часто я отвечаю сам (в %).\n\n" +
+        "/set_chance <0-100> — Как часто я отвечаю сам (в %).\n" +
+        "/tools — Мои инструменты и их статус.\n" +
+        "/enable_tool <name> / /disable_tool <name> — Включить/выключить инструмент.\n" +
+        "/queue — Очередь сообщений и время ожидания.\n" +
+        "/timezone [chat] <зона> — Часовой пояс (твой или чата).\n" +
+        "/quiet <ЧЧ:ММ-ЧЧ:ММ|off> — Тихие часы.\n" +
+        "/mute <срок|off> — Замолчать на время (2h, 1d).\n" +
+        "/links <off|reply|silent> — Пересказывать ссылки (и правила для сайтов).\n" +
+        "/allow_members <settings|all|none> — Что могут менять не-админы.\n\n" +
         "🆘 **Помощь:**\n" +
         "/help — Краткая справка.\n" +
         "/start — Перезапуск и описание."
@@ -278,22 +382,18 @@ bot.command("commands", (ctx) => {
 });
 
 bot.command("settings", async (ctx) => {
-    const settings = await getChatSettings(ctx.chat.id);
-    safeReply(ctx, 
-        "⚙️ **Настройки чата:**\n\n" +
-        `🌡 **Температура:** ${settings.temperature}\n` +
-        `🎭 **Настроение:** ${settings.mood}\n` +
-        `🎲 **Частота ответов:** ${settings.reply_chance}%\n\n` +
-        "Изменить: /set_temp, /set_mood или /set_chance"
-    );
+    await sendSettingsPanel(ctx, Object.keys(MOOD_PROMPTS));
 });
 
+registerSettingsPanel(bot, Object.keys(MOOD_PROMPTS));
+registerUserDataCommands(bot);
+
 bot.command("me", async (ctx) => {
     const userId = ctx.from?.id;
     if (!userId) return;
     
     const reputation = await getReputation(userId);
-    const facts = await getFacts(userId);
+    const facts = await getFacts(userId, ctx.chat.id);
     const firstName = ctx.from?.first_name || "Анон";
 
     let status = "Незнакомец 👤";
@@ -314,6 +414,356 @@ bot.command("me", async (ctx) => {
     safeReply(ctx, text);
 });
 
+const FACT_VISIBILITY_LABELS: Record<FactVisibility, string> = { private: "только в личке", chat: "только в чате, где я узнал", global: "везде" };
+const FACT_VISIBILITY_WORDS = new Map<string, FactVisibility>([
+    ["private", "private"], ["лично", "private"],
+    ["chat", "chat"], ["чат", "chat"],
+    ["global", "global"], ["везде", "global"],
+]);
+
+bot.command("memory", async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const timeZone = await resolveTimezone(ctx.chat.id, userId);
+    const privateChat = ctx.chat.type === "private";
+
+    if (ctx.match?.toString().trim().toLowerCase() === "history") {
+        // Revisions aren't scoped, so they may quote private facts
+        if (!privateChat) return ctx.reply("📜 Историю изменений покажу только в личке.");
+
+        const revisions = await listFactRevisions(userId, 15);
+        if (revisions.length === 0) return ctx.reply("📜 Я ещё ничего не объединял и не заменял.");
+
+        const verbs: Record<string, string> = { duplicate: "повтор", merged: "объединено", superseded: "заменено" };
+        const lines = revisions.map(r =>
+            `[${formatDateTime(new Date(r.created_at), timeZone)}] ${verbs[r.action] || r.action}: ${r.old_fact}${r.new_fact && r.new_fact !== r.old_fact ? ` → ${r.new_fact}` : ""}`
+        );
+        return ctx.reply("📜 Как менялась память о тебе:\n\n" + lines.join("\n"));
+    }
+
+    // In a group only what may be shown there; everything in private
+    const facts = await listFacts(userId, privateChat ? undefined : ctx.chat.id);
+    if (facts.length === 0) {
+        return ctx.reply("🧠 Я пока ничего о тебе не запомнил.");
+    }
+
+    const texts = await attributeFacts(facts);
+    const lines = facts.map((f, i) => {
+        const expiry = f.expires_at ? ` (до ${formatDateTime(new Date(f.expires_at), timeZone)})` : "";
+        return `#${f.id} ${texts[i]}${expiry} [${FACT_VISIBILITY_LABELS[f.visibility]}]`;
+    });
+    ctx.reply(
+        `🧠 Что я о тебе помню${privateChat ? "" : " (в этом чате)"}:\n\n` + lines.join("\n") +
+        "\n\nУдалить: /forget <id> или /forget all\nГде видно: /visibility <id> <private|chat|global>\nИстория изменений: /memory history"
+    );
+});
+
+bot.command("forget", async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const arg = ctx.match?.toString().trim().replace(/^#/, "").toLowerCase();
+    if (!arg) return ctx.reply("Использование: /forget <id|all>\nId фактов: /memory");
+
+    if (arg === "all") {
+        const count = await deleteAllFacts(userId);
+        return ctx.reply(count > 0 ? `Забыл всё о тебе (${count}).` : "Я и так ничего о тебе не помню.");
+    }
+
+    const factId = parseInt(arg);
+    if (isNaN(factId)) return ctx.reply("Укажи id факта из /memory или all.");
+
+    const deleted = await deleteFactById(userId, factId);
+    ctx.reply(deleted ? `Факт #${factId} забыт.` : `У тебя нет факта #${factId}.`);
+});
+
+bot.command("visibility", async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const [idArg, levelArg] = ctx.match?.toString().trim().split(/\s+/) || [];
+    const factId = parseInt(idArg?.replace(/^#/, "") || "");
+    const visibility = FACT_VISIBILITY_WORDS.get(levelArg?.toLowerCase() || "");
+    if (isNaN(factId) || !visibility) {
+        return ctx.reply(
+            "Использование: /visibility <id> <private|chat|global>\n" +
+            "private — только в личке, chat — только в этом чате, global — везде.\nId фактов: /memory"
+        );
+    }
+
+    const updated = await setFactVisibility(userId, factId, visibility, ctx.chat.id);
+    ctx.reply(updated ? `Факт #${factId}: ${FACT_VISIBILITY_LABELS[visibility]}.` : `У тебя нет факта #${factId}.`);
+});
+
+bot.command("remember", async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const parts = ctx.match?.toString().trim().split(/\s+/).filter(Boolean) || [];
+    // Optional leading visibility, like /remember global люблю котов
+    const visibility = parts.length > 1 ? FACT_VISIBILITY_WORDS.get(parts[0].toLowerCase()) : undefined;
+    if (visibility) parts.shift();
+    if (parts.length === 0) return ctx.reply("Использование: /remember [private|chat|global] <текст> [срок, например 2h, 3d, 1w]");
+
+    // Trailing duration is the TTL, unless it's the only word
+    const ttl = parts.length > 1 ? parseDuration(parts[parts.length - 1]) : null;
+    const text = (ttl ? parts.slice(0, -1) : parts).join(" ");
+
+    await upsertUser(userId, ctx.from!.username, ctx.from!.first_name);
+    const result = await saveFact(userId, text, ttl ?? undefined, { reporterId: userId, chatId: ctx.chat.id, visibility });
+    if (result.action === "duplicate") return ctx.reply(`Я это уже знаю (#${result.id}).`);
+
+    const timeZone = await resolveTimezone(ctx.chat.id, userId);
+    let reply = `Запомнил (#${result.id})${ttl ? ` до ${formatDateTime(new Date(Date.now() + ttl * 1000), timeZone)}` : ""}.`;
+    if (result.action === "merged") reply += `\nОбъединил с: ${result.replaced.join("; ")}`;
+    if (result.action === "superseded") reply += `\nВместо устаревшего: ${result.replaced.join("; ")}`;
+    ctx.reply(reply);
+});
+
+bot.command("remind", async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const usage = "Использование: /remind [срочно] <когда> <текст>\nНапример: /remind через 2 часа позвонить маме, /remind завтра в 9:00 созвон, /remind in 30m check the oven\n" +
+        "Срочные напоминания приходят даже в тихие часы и при /mute.";
+    let input = ctx.match?.toString().trim();
+    if (!input) return ctx.reply(usage);
+
+    const urgentMatch = input.match(/^(срочно|urgent)[!,:]?\s+/i);
+    if (urgentMatch) input = input.slice(urgentMatch[0].length);
+
+    // "завтра в 9:00" means 9:00 where the user is
+    const timeZone = await resolveTimezone(ctx.chat.id, userId);
+    const parsed = parseReminderTime(input, timeZone);
+    if (!parsed) return ctx.reply(`Не понял, когда напомнить.\n${usage}`);
+    if (parsed.passed) return ctx.reply(`${formatDateTime(parsed.dueAt, timeZone)} уже прошло. Укажи время позже, например «завтра в ...».`);
+    if (!parsed.text) return ctx.reply(`О чем напомнить?\n${usage}`);
+
+    await upsertUser(userId, ctx.from!.username, ctx.from!.first_name);
+    const name = ctx.from!.username ? `@${ctx.from!.username}` : ctx.from!.first_name;
+    const reminder = await addReminder(ctx.chat.id, userId, `⏰ ${name}, напоминаю: ${parsed.text}`, parsed.dueAt, undefined, !!urgentMatch);
+    if (!reminder) {
+        return ctx.reply("У тебя уже слишком много напоминаний в этом чате. Посмотреть и отменить: /reminders");
+    }
+
+    ctx.reply(`Напомню ${formatDateTime(parsed.dueAt, timeZone)} (#${reminder.id}).`);
+});
+
+bot.command("reminders", async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const reminders = await listReminders(ctx.chat.id, userId);
+    if (reminders.length === 0) {
+        return ctx.reply("⏰ У тебя нет запланированных напоминаний в этом чате.");
+    }
+
+    const timeZone = await resolveTimezone(ctx.chat.id, userId);
+    const lines = reminders.map(r => {
+        let repeat = "";
+        if (r.recurrence) {
+            repeat = ` 🔁 ${describeRule(r.recurrence)}`;
+            if (r.ends_at) repeat += `, до ${formatDateTime(new Date(r.ends_at), timeZone)}`;
+            if (r.remaining_count != null) repeat += `, осталось ${r.remaining_count}`;
+        }
+        return `#${r.id} ${formatDateTime(new Date(r.due_at), timeZone)}${repeat} — ${r.text}`;
+    });
+    ctx.reply("⏰ Твои напоминания:\n\n" + lines.join("\n") + "\n\nОтменить: /cancel_reminder <id>\nПовторять: /repeat <id> <daily|weekly|cron>");
+});
+
+bot.command("cancel_reminder", async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const reminderId = parseInt(ctx.match?.toString().trim().replace(/^#/, "") || "");
+    if (isNaN(reminderId)) return ctx.reply("Использование: /cancel_reminder <id>\nId напоминаний: /reminders");
+
+    const cancelled = await cancelReminder(userId, reminderId);
+    ctx.reply(cancelled ? `Напоминание #${reminderId} отменено.` : `У тебя нет напоминания #${reminderId}.`);
+});
+
+bot.command("repeat", async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const usage = "Использование: /repeat <id> <daily|weekly|cron из 5 полей|off> [until ГГГГ-ММ-ДД] [x<сколько раз>]\n" +
+        "Например: /repeat 12 daily x10, /repeat 12 0 19 * * 5 until 2026-12-31";
+    const tokens = ctx.match?.toString().trim().split(/\s+/).filter(Boolean) || [];
+    const reminderId = parseInt(tokens.shift()?.replace(/^#/, "") || "");
+    if (isNaN(reminderId) || tokens.length === 0) return ctx.reply(usage);
+
+    const timeZone = await resolveTimezone(ctx.chat.id, userId);
+
+    if (tokens[0].toLowerCase() === "off") {
+        const updated = await setReminderRecurrence(userId, reminderId, null);
+        return ctx.reply(updated ? `Напоминание #${reminderId} больше не повторяется.` : `У тебя нет напоминания #${reminderId}.`);
+    }
+
+    // Options come after the rule: "until <date>" / "до <date>" and "x<N>"
+    const recurrence: Partial<Recurrence> = {};
+    const ruleParts: string[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i].toLowerCase();
+        const count = token.match(/^[x×](\d+)$/);
+        if ((token === "until" || token === "до") && tokens[i + 1]) {
+            const endsAt = parseEndDate(tokens[++i], timeZone);
+            if (!endsAt) return ctx.reply(`Не понял дату окончания.\n${usage}`);
+            recurrence.endsAt = endsAt;
+        } else if (count) {
+            recurrence.count = parseInt(count[1]);
+        } else {
+            ruleParts.push(token);
+        }
+    }
+
+    const rule = ruleParts.join(" ");
+    if (!isValidRule(rule)) return ctx.reply(`Не понял расписание.\n${usage}`);
+    if (recurrence.count === 0) return ctx.reply("Количество повторов должно быть больше нуля.");
+
+    // A cron schedule decides the time itself, so move the reminder to its next slot
+    const isCron = rule !== "daily" && rule !== "weekly";
+    const dueAt = isCron ? nextOccurrence(rule, new Date(), new Date(), timeZone) ?? undefined : undefined;
+
+    const updated = await setReminderRecurrence(userId, reminderId, { ...recurrence, rule }, dueAt);
+    if (!updated) return ctx.reply(`У тебя нет напоминания #${reminderId}.`);
+
+    ctx.reply(`Напоминание #${reminderId} будет повторяться: ${describeRule(rule)}` +
+        (dueAt ? `. Следующий раз: ${formatDateTime(dueAt, timeZone)}` : "") + ".");
+});
+
+bot.command("timezone", async (ctx) => {
+    const userId = ctx.from?.id;
+    if (!userId) return;
+
+    const usage = "Использование: /timezone <зона> — твой часовой пояс, /timezone chat <зона> — пояс чата (reset — сбросить).\nНапример: /timezone Europe/Moscow, /timezone UTC+3";
+    const args = ctx.match?.toString().trim().split(/\s+/).filter(Boolean) || [];
+
+    if (args.length === 0) {
+        const user = await getUser(userId);
+        const settings = await getChatSettings(ctx.chat.id);
+        return ctx.reply(
+            "🕒 Часовые пояса:\n\n" +
+            `Твой: ${user?.timezone || "не задан"}\n` +
+            `Чата: ${settings.timezone || "не задан"}\n` +
+            `По умолчанию: ${DEFAULT_TIMEZONE}\n` +
+            `Для тебя сейчас используется: ${await resolveTimezone(ctx.chat.id, userId)}\n\n` + usage
+        );
+    }
+
+    const forChat = args[0].toLowerCase() === "chat";
+    const value = forChat ? args[1] : args[0];
+    if (!value) return ctx.reply(usage);
+
+    if (forChat && !(await requireSettingPermission(ctx, "timezone"))) return;
+
+    let timezone: string | null = null;
+    if (value.toLowerCase() !== "reset") {
+        timezone = normalizeTimezone(value);
+        if (!timezone) return ctx.reply(`Не знаю такого часового пояса: ${value}\n${usage}`);
+    }
+
+    if (forChat) {
+        await setChatTimezone(ctx.chat.id, timezone);
+    } else {
+        await upsertUser(userId, ctx.from!.username, ctx.from!.first_name);
+        await setUserTimezone(userId, timezone);
+    }
+
+    const target = forChat ? "Часовой пояс чата" : "Твой часовой пояс";
+    ctx.reply(timezone
+        ? `${target}: ${timezone} (сейчас там ${formatDateTime(new Date(), timezone)}).`
+        : `${target} сброшен.`);
+});
+
+bot.command("quiet", async (ctx) => {
+    const usage = "Использование: /quiet <ЧЧ:ММ-ЧЧ:ММ|off>, например /quiet 23:00-08:00\n" +
+        "В тихие часы (по времени чата, /timezone chat) я не пишу сам и откладываю несрочные напоминания.";
+    const arg = ctx.match?.toString().trim().toLowerCase();
+
+    if (!arg) {
+        const settings = await getChatSettings(ctx.chat.id);
+        return ctx.reply(`🌙 Тихие часы: ${settings.quiet_hours || "не заданы"}\n\n${usage}`);
+    }
+
+    if (!(await requireSettingPermission(ctx, "quiet_hours"))) return;
+
+    if (arg === "off") {
+        await setQuietHours(ctx.chat.id, null);
+        return ctx.reply("Тихие часы выключены.");
+    }
+
+    const range = parseTimeRange(arg);
+    if (!range) return ctx.reply(`Не понял интервал.\n${usage}`);
+
+    const format = (m: number) => `${String(Math.floor(m / 60) % 24).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+    const quietHours = `${format(range.from)}-${format(range.to)}`;
+    await setQuietHours(ctx.chat.id, quietHours);
+    ctx.reply(`🌙 Тихие часы: ${quietHours} (${await resolveTimezone(ctx.chat.id)}).`);
+});
+
+bot.command("mute", async (ctx) => {
+    const usage = "Использование: /mute <срок|off>, например /mute 2h или /mute 1d\nПока я на муте, сам не пишу, не отвечаю случайно и откладываю несрочные напоминания. На прямые обращения отвечаю.";
+    const arg = ctx.match?.toString().trim().toLowerCase();
+
+    if (!arg) {
+        const settings = await getChatSettings(ctx.chat.id);
+        const muted = settings.muted_until && settings.muted_until > new Date()
+            ? `до ${formatDateTime(settings.muted_until, await resolveTimezone(ctx.chat.id))}`
+            : "нет";
+        return ctx.reply(`🔇 Мут: ${muted}\n\n${usage}`);
+    }
+
+    if (!(await requireSettingPermission(ctx, "quiet_hours"))) return;
+
+    if (arg === "off") {
+        await setMutedUntil(ctx.chat.id, null);
+        return ctx.reply("🔊 Мут снят.");
+    }
+
+    const seconds = parseDuration(arg);
+    if (!seconds) return ctx.reply(`Не понял срок.\n${usage}`);
+
+    const until = new Date(Date.now() + seconds * 1000);
+    await setMutedUntil(ctx.chat.id, until);
+    ctx.reply(`🔇 Молчу до ${formatDateTime(until, await resolveTimezone(ctx.chat.id))}.`);
+});
+
+bot.command("links", async (ctx) => {
+    const usage = "Использование:\n" +
+        "/links <off|reply|silent> — пересказывать ссылки из сообщений: ответом или молча (запоминаю для разговора)\n" +
+        "/links <сайт> <off|reply|silent|default> — правило для сайта, например /links habr.com reply";
+    const args = ctx.match?.toString().trim().toLowerCase().split(/\s+/).filter(Boolean) || [];
+
+    if (args.length === 0) {
+        const settings = await getChatSettings(ctx.chat.id);
+        const rules = settings.link_rules.map(r => r.split("=")).map(([domain, mode]) => `• ${domain}: ${LINK_MODE_LABELS[mode] || mode}`);
+        return ctx.reply(`🔗 Пересказ ссылок: ${LINK_MODE_LABELS[settings.link_summaries || "off"]}` +
+            (rules.length > 0 ? `\nПравила для сайтов:\n${rules.join("\n")}` : "") +
+            `\n\n${usage}`);
+    }
+
+    if (args.length > 2) return ctx.reply(usage);
+    if (!(await requireSettingPermission(ctx, "links"))) return;
+
+    if (args.length === 1) {
+        const mode = args[0] as LinkMode;
+        if (!LINK_MODES.includes(mode)) return ctx.reply(usage);
+        await setLinkSummaries(ctx.chat.id, mode === "off" ? null : mode);
+        return ctx.reply(`🔗 Пересказ ссылок: ${LINK_MODE_LABELS[mode]}.`);
+    }
+
+    const domain = parseDomain(args[0]);
+    const mode = args[1];
+    if (!domain || (mode !== "default" && !LINK_MODES.includes(mode as LinkMode))) return ctx.reply(usage);
+
+    const settings = await getChatSettings(ctx.chat.id);
+    await setLinkRules(ctx.chat.id, withDomainRule(settings.link_rules, domain, mode === "default" ? null : mode as LinkMode));
+    ctx.reply(mode === "default"
+        ? `Для ${domain} снова действует общий режим.`
+        : `🔗 Ссылки на ${domain}: ${LINK_MODE_LABELS[mode]}.`);
+});
+
 bot.command("rel", async (ctx) => {
     const args = ctx.match?.toString().split(/\s+/).filter(a => a.startsWith("@")) || [];
     let rels = await getRelationships(ctx.chat.id);
@@ -368,6 +818,8 @@ bot.command("rel", async (ctx) => {
 });
 
 bot.command("set_temp", async (ctx) => {
+    if (!(await requireSettingPermission(ctx, "temperature"))) return;
+
     const args = ctx.match;
     if (!args) return ctx.reply("Использование: /set_temp <0.1 - 1.5>");
     
@@ -382,6 +834,8 @@ bot.command("set_temp", async (ctx) => {
 });
 
 bot.command("set_mood", async (ctx) => {
+    if (!(await requireSettingPermission(ctx, "mood"))) return;
+
     const args = ctx.match;
     if (!args) return ctx.reply("Использование: /set_mood <mood>\nДоступно: neutral, playful, flirty, angry, toxic, sad");
 
@@ -396,6 +850,8 @@ bot.command("set_mood", async (ctx) => {
 });
 
 bot.command("set_chance", async (ctx) => {
+    if (!(await requireSettingPermission(ctx, "reply_chance"))) return;
+
     const args = ctx.match;
     if (!args) return ctx.reply("Использование: /set_chance <0-100>");
 
@@ -409,31 +865,115 @@ bot.command("set_chance", async (ctx) => {
     ctx.reply(`Шанс ответа установлен на ${chance}%.`);
 });
 
+bot.command("tools", async (ctx) => {
+    const settings = await getChatSettings(ctx.chat.id);
+    const lines = listToolNames().map(name => {
+        const enabled = !settings.disabled_tools.includes(name);
+        return `${enabled ? "✅" : "🚫"} ${name}`;
+    });
+    safeReply(ctx, "🧰 Инструменты в этом чате:\n\n" + lines.join("\n"));
+});
+
+bot.command("queue", (ctx) => {
+    const stats = getQueueStats();
+    safeReply(ctx,
+        "📬 Очередь:\n\n" +
+        `В этом чате ждут: ${getQueueDepth(ctx.chat.id)}\n` +
+        `Обработано: ${stats.processed} (объединено: ${stats.coalesced}, отброшено: ${stats.dropped})\n` +
+        `Ожидание: среднее ${stats.avgWaitMs} мс, максимум ${stats.maxWaitMs} мс`
+    );
+});
+
+async function handleToolToggle(ctx: Context, enabled: boolean) {
+    if (!(await requireSettingPermission(ctx, "tools"))) return;
+
+    const command = enabled ? "enable_tool" : "disable_tool";
+    const args = ctx.match?.toString().trim();
+    if (!args) return ctx.reply(`Использование: /${command} <name>\nДоступно: ${listToolNames().join(", ")}`);
+
+    const tool = getTool(args);
+    if (!tool) {
+        return ctx.reply(`Такого инструмента я не знаю. Доступно: ${listToolNames().join(", ")}`);
+    }
+
+    await setToolEnabled(ctx.chat!.id, tool.name, enabled);
+    ctx.reply(`Инструмент ${tool.name} ${enabled ? "включен" : "выключен"}.`);
+}
+
+bot.command("enable_tool", (ctx) => handleToolToggle(ctx, true));
+bot.command("disable_tool", (ctx) => handleToolToggle(ctx, false));
+
+bot.command("allow_members", async (ctx) => {
+    if (!(await requireAdmin(ctx))) return;
+
+    const args = ctx.match?.toString().toLowerCase().split(/[\s,]+/).filter(Boolean) || [];
+    const usage = `Использование: /allow_members <${DELEGABLE_SETTINGS.join("|")}|all|none>`;
+    if (args.length === 0) return ctx.reply(usage);
+
+    let allowed: string[];
+    if (args.includes("none")) {
+        allowed = [];
+    } else if (args.includes("all")) {
+        allowed = [...DELEGABLE_SETTINGS];
+    } else {
+        const unknown = args.filter(a => !DELEGABLE_SETTINGS.includes(a as SettingKey));
+        if (unknown.length > 0) return ctx.reply(`Не знаю таких настроек: ${unknown.join(", ")}\n${usage}`);
+        allowed = args;
+    }
+
+    await setMemberSettings(ctx.chat.id, allowed);
+    ctx.reply(allowed.length > 0
+        ? `Участники теперь могут менять: ${allowed.join(", ")}.`
+        : "Теперь настройки могут менять только админы.");
+});
+
 // --- Idle Timer Logic ---
-const chatTimers = new Map<number, NodeJS.Timeout>();
+// Idle wake-ups are stored as "idle" jobs in the scheduler, so they survive restarts.
 const IDLE_TIMEOUT_MIN = 1000 * 60 * 60 * 2; // 2 Hours minimum
 const IDLE_TIMEOUT_VAR = 1000 * 60 * 60 * 4; // + up to 4 Hours variance
+const IDLE_MAX_LATE = 1000 * 60 * 30; // Missed by more than 30 min (e.g. downtime) -> spread out instead of firing at once
+// Local hours (in the chat's timezone) when wake-ups may happen, e.g. "9-23"
+const IDLE_WINDOW = parseTimeRange(process.env.IDLE_HOURS || "9-23");
+const IDLE_WINDOW_JITTER = 1000 * 60 * 60; // Spread wake-ups over the first hour of the window
 
-function resetIdleTimer(chatId: number) {
-  // Clear existing timer
-  const existingTimer = chatTimers.get(chatId);
-  if (existingTimer) {
-    clearTimeout(existingTimer);
+/**
+ * Moves a wake-up time that falls outside the idle window, into quiet hours or into a mute
+ * to shortly after that period ends
+ */
+async function fitIdleWindow(chatId: number, at: Date): Promise<Date> {
+  const timeZone = await resolveTimezone(chatId);
+
+  // A few rounds, since leaving one period can land in another (e.g. quiet hours right after a mute)
+  for (let i = 0; i < 3; i++) {
+    if (IDLE_WINDOW && !isWithinLocalWindow(at, timeZone, IDLE_WINDOW.from, IDLE_WINDOW.to)) {
+      at = new Date(nextLocalTime(at, timeZone, IDLE_WINDOW.from).getTime() + Math.random() * IDLE_WINDOW_JITTER);
+      continue;
+    }
+    const quiet = await getQuietState(chatId, at);
+    if (!quiet) break;
+    at = new Date(quiet.until.getTime() + Math.random() * IDLE_WINDOW_JITTER);
   }
 
-  // Set new timer (Random duration between 2 to 6 hours)
+  return at;
+}
+
+async function resetIdleTimer(chatId: number) {
+  // Random duration between 2 to 6 hours, replaces the previous wake-up
   const duration = IDLE_TIMEOUT_MIN + Math.random() * IDLE_TIMEOUT_VAR;
-  
-  const timer = setTimeout(async () => {
+  await scheduleJob("idle", chatId, await fitIdleWindow(chatId, new Date(Date.now() + duration)));
+}
+
+async function runIdleWakeup(chatId: number) {
     try {
         console.log(`[Idle] Waking up in chat ${chatId}`);
         // Generate a spontaneous message
         const settings = await getChatSettings(chatId);
         const moodPrompt = MOOD_PROMPTS[settings.mood] || "";
+        const timeZone = await resolveTimezone(chatId);
 
         const history = await getHistory(chatId, 5);
         const systemMessage = `
-          ${getBaseSystemPrompt()}
+          ${getBaseSystemPrompt(timeZone)}
           ${moodPrompt}
           
           [КОНТЕКСТ]
@@ -448,7 +988,7 @@ function resetIdleTimer(chatId: number) {
             ...history.map((h) => ({ role: h.role as "user" | "assistant" | "system", content: h.content })),
         ];
 
-        const response = await generateResponse(messages, 0, chatId, undefined, settings.temperature);
+        const response = await generateResponse(messages, 0, chatId, undefined, settings.temperature, 0, false, settings.disabled_tools);
 
         if (response) {
             await sendBotResponseApi(chatId, response);
@@ -458,13 +998,20 @@ function resetIdleTimer(chatId: number) {
     } catch (e) {
         console.error(`[Idle] Error in chat ${chatId}`, e);
     }
-  }, duration);
-
-  chatTimers.set(chatId, timer);
 }
 
-bot.command("start", (ctx) => {
-    resetIdleTimer(ctx.chat.id);
+registerJobHandler("idle", async (chatId) => {
+    // The chat's timezone may have changed since the wake-up was scheduled
+    const runAt = await fitIdleWindow(chatId, new Date());
+    if (runAt > new Date()) {
+        await scheduleJob("idle", chatId, runAt);
+        return;
+    }
+    enqueueChatTask(chatId, "passive", null, () => runIdleWakeup(chatId));
+}, { maxLateMs: IDLE_MAX_LATE, overdue: "reschedule", rescheduleJitterMs: IDLE_MAX_LATE });
+
+bot.command("start", async (ctx) => {
+    await resetIdleTimer(ctx.chat.id);
     const welcomeText = 
         "👋 **Йо! Я — Норел (он же Бублик).**\n\n" +
         "Я не просто бот, а твой AI-собеседник с характером. Давай сразу введу в курс дела:\n\n" +
@@ -487,49 +1034,32 @@ bot.command("start", (ctx) => {
 });
 
 // --- Batch Processing Logic ---
+// Passive messages are collected into a "passive_batch" job that fires 30s after the first one.
 
-const pendingBatches = new Map<number, {
+const BATCH_DELAY = 30000;
 
-    timer: NodeJS.Timeout;
+type PendingBatch = {
 
     messagesCount: number;
 
-    lastCtx: Context;
-
-}>();
-
-
-
-async function processChatBatch(chatId: number) {
-
-    const batch = pendingBatches.get(chatId);
-
-    if (!batch) return;
-
+    userId: number;
 
+    username: string;
 
-    const { messagesCount, lastCtx } = batch;
-
-    pendingBatches.delete(chatId);
+    firstName: string;
 
+};
 
 
-    const userId = lastCtx.from!.id;
 
-    const username = lastCtx.from!.username || "Unknown";
+async function processChatBatch(chatId: number, batch: PendingBatch) {
 
-    const firstName = lastCtx.from!.first_name || "Anon";
+    const { messagesCount, userId, username, firstName } = batch;
 
 
 
     console.log(`[Batch][${chatId}] Processing batch of ${messagesCount} messages.`);
 
-    // Check if chat is already being processed
-    if (!lockChat(chatId)) {
-        console.log(`[Batch][${chatId}] Chat is already being processed, skipping batch`);
-        return;
-    }
-
     try {
 
 
@@ -546,7 +1076,7 @@ async function processChatBatch(chatId: number) {
 
     const history = await getHistory(chatId, 15);
 
-    const facts = await getFacts(userId);
+    const facts = await getFacts(userId, chatId);
 
     const settings = await getChatSettings(chatId);
 
@@ -554,9 +1084,16 @@ async function processChatBatch(chatId: number) {
 
     const chatSummary = await getChatSummary(chatId);
 
+    const timeZone = await resolveTimezone(chatId);
 
+    // Recall by what was said in this batch
+    const batchText = history.slice(-messagesCount).filter(h => h.role === "user").map(h => h.content).join("\n");
+    const memories = formatMemories(await recallMemories(chatId, [userId], batchText, facts), timeZone);
 
-    const isLucky = await shouldReplyPassive(chatId, messagesCount);
+
+
+    // While muted the batch is still processed (memory, tools), just without a random reply
+    const isLucky = !(await isMuted(chatId)) && await shouldReplyPassive(chatId, messagesCount);
 
     
 
@@ -564,7 +1101,7 @@ async function processChatBatch(chatId: number) {
 
     const systemMessageWithMemory = `
 
-    ${getPassiveSystemPrompt()}
+    ${getPassiveSystemPrompt(timeZone)}
 
     ${moodPrompt}
 
@@ -585,15 +1122,18 @@ async function processChatBatch(chatId: number) {
     Твоя Репутация у этого пользователя: ${userReputation}
 
     Факты: ${facts.length > 0 ? facts.join("; ") : "нет данных"}
+
+    ${memories}
     
-    ВАЖНО: Все факты, которые ты сохраняешь через save_memory, будут привязаны к ЭТОМУ пользователю (${firstName}, ID: ${userId}).
-    НЕ сохраняй факты о других людях через save_memory - они будут неправильно привязаны!
+    ВАЖНО: Факты, которые ты сохраняешь через save_memory, привязываются к ЭТОМУ пользователю (${firstName}, ID: ${userId}).
+    Если факт о другом человеке (например, "Вася сказал, что Петя нашел работу"), укажи в save_memory subject - его ID или @username (см. get_chat_info).
+    Пометка "(источник: ...)" у факта значит, что его рассказал кто-то другой.
 
     
 
     [ДАТА И ВРЕМЯ]
 
-    Сейчас: ${new Date().toLocaleString('ru-RU')}
+    Сейчас: ${new Date().toLocaleString('ru-RU', { timeZone })}
 
     
 
@@ -627,25 +1167,17 @@ async function processChatBatch(chatId: number) {
 
         { role: "system", content: systemMessageWithMemory },
 
-        ...history.map((h) => ({
-
-            role: h.role as "user" | "assistant" | "system",
-
-            content: h.content,
-
-            name: h.name ? h.name.replace(/[^a-zA-Z0-9_-]/g, '_') : undefined
-
-        }))
+        ...(await historyToMessages(bot.api, history))
 
     ];
 
 
 
-    const scheduleReminder = async (seconds: number, reminderText: string) => {
+    const scheduleReminder: ReminderHandler = async (seconds, reminderText, recurrence, urgent) => {
 
         const dueAt = new Date(Date.now() + seconds * 1000);
 
-        await addReminder(chatId, userId, reminderText, dueAt);
+        return (await addReminder(chatId, userId, reminderText, dueAt, recurrence, urgent)) !== null;
 
     };
 
@@ -653,7 +1185,7 @@ async function processChatBatch(chatId: number) {
 
     const aiStartTime = Date.now();
 
-    const response = await generateResponse(messages, userId, chatId, scheduleReminder, settings.temperature, 0, !isLucky);
+    const response = await generateResponse(messages, userId, chatId, scheduleReminder, settings.temperature, 0, !isLucky, settings.disabled_tools);
 
 
 
@@ -663,7 +1195,7 @@ async function processChatBatch(chatId: number) {
 
         const displayText = response.text || (response.photo ? "Photo" : "Response");
         console.log(`[Bot][${chatId}] Sending passive response (${aiDuration}ms): ${displayText.substring(0, 50)}...`);
-        await sendBotResponse(lastCtx, response);
+        await sendBotResponseApi(chatId, response);
         const textToSave = response.text || (response.photo ? response.photo.caption || "Photo sent" : "");
         await addMessage(chatId, "assistant", textToSave);
     } else {
@@ -672,20 +1204,140 @@ async function processChatBatch(chatId: number) {
     
     } catch (error) {
         console.error(`[Batch][${chatId}] Error in batch processing:`, error);
-    } finally {
-        unlockChat(chatId);
     }
 }
 
+// Moves a due passive batch into the chat queue
+registerJobHandler("passive_batch", async (chatId, batch: PendingBatch) => {
+    enqueueChatTask(chatId, "passive", batch, async () => {
+        await processChatBatch(chatId, batch);
+    });
+});
+
 
 
-bot.on("message:text", async (ctx) => {
+/**
+ * Summarizes the links of a message. In "reply" mode the TL;DR is sent as a reply, unless the
+ * bot is about to answer the message anyway or the chat is quiet: then, as in "silent" mode,
+ * it's only noted in History, where the answer (queued after this task) can use it.
+ */
+async function processLinkSummaries(chatId: number, ctx: Context, links: PlannedLink[], answering: boolean) {
+    const quiet = answering ? null : await getQuietState(chatId);
+    const replies: LinkSummary[] = [];
+
+    for (const link of links) {
+        const summary = await summarizeLink(chatId, link.url);
+        if (!summary) continue;
+
+        if (link.mode === "reply" && !answering && !quiet) {
+            replies.push(summary);
+        } else {
+            await addMessage(chatId, "system", formatLinkNote(summary));
+        }
+    }
+
+    if (replies.length > 0) {
+        const text = formatLinkReply(replies);
+        console.log(`[Links][${chatId}] Replying with ${replies.length} summary(-ies)`);
+        await ctx.reply(text, {
+            reply_parameters: { message_id: ctx.message!.message_id, allow_sending_without_reply: true },
+            link_preview_options: { is_disabled: true },
+        });
+        await addMessage(chatId, "assistant", text);
+    }
+}
+
+/**
+ * Answers one or more mentions. Several tasks arrive here only when queued
+ * mentions are coalesced, in which case a single reply addresses everyone.
+ */
+async function processActiveMentions(chatId: number, tasks: ChatTask<Context>[]) {
+    const contexts = tasks.map(t => t.payload);
+    const ctx = contexts[contexts.length - 1]; // Reply to the latest message
+    const userId = ctx.from!.id;
+    const firstName = ctx.from!.first_name || "Anon";
+
+    let typingInterval: NodeJS.Timeout | null = null;
+
+    try {
+        typingInterval = setInterval(() => { ctx.replyWithChatAction("typing").catch(() => {}); }, 4000);
+        ctx.replyWithChatAction("typing").catch(() => {});
+
+        const history = await getHistory(chatId, 15);
+        const settings = await getChatSettings(chatId);
+        const chatSummary = await getChatSummary(chatId);
+        const moodPrompt = MOOD_PROMPTS[settings.mood] || "";
+        const timeZone = await resolveTimezone(chatId);
+
+        // Unique authors, in the order they wrote
+        const authors = new Map<number, string>();
+        for (const c of contexts) authors.set(c.from!.id, c.from!.first_name || "Anon");
+
+        let userInfo = "";
+        const knownFacts: string[] = [];
+        for (const [authorId, authorName] of authors) {
+            const facts = await getFacts(authorId, chatId);
+            knownFacts.push(...facts);
+            const reputation = await getReputation(authorId);
+            userInfo += `
+            [ИНФО] Имя: ${authorName}, Репутация: ${reputation}
+            Факты о ${authorName}: ${facts.length > 0 ? facts.join("; ") : "нет данных"}`;
+        }
+
+        const query = contexts.map(c => c.message ? describeMessage(c.message) : "").join("\n");
+        const memories = formatMemories(await recallMemories(chatId, [...authors.keys()], query, knownFacts), timeZone);
+
+        const coalesceNote = authors.size > 1
+            ? `\n            [НЕСКОЛЬКО СОБЕСЕДНИКОВ] Пока ты отвечал, тебе написали: ${[...authors.values()].join(", ")}. Ответь всем ОДНИМ сообщением, обращаясь к каждому по имени.`
+            : "";
+
+        const systemMessage = `
+            ${getBaseSystemPrompt(timeZone)}
+            ${moodPrompt}
+            [КРАТКОЕ СОДЕРЖАНИЕ] ${chatSummary || "Нет"}${userInfo}
+            ${memories}
+            
+            [ВАЖНО] В истории могут быть факты о ДРУГИХ пользователях. НЕ путай их с фактами о ${firstName}!${coalesceNote}
+            Сейчас: ${new Date().toLocaleString('ru-RU', { timeZone })}
+          `;
+
+        const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+            { role: "system", content: systemMessage },
+            ...(await historyToMessages(bot.api, history))
+        ];
+
+        const scheduleReminder: ReminderHandler = async (s, t, recurrence, urgent) => (await addReminder(chatId, userId, t, new Date(Date.now() + s * 1000), recurrence, urgent)) !== null;
+
+        const response = await generateResponse(messages, userId, chatId, scheduleReminder, settings.temperature, 0, false, settings.disabled_tools);
+
+        if (response) {
+            const displayText = response.text || (response.photo ? "Photo" : "Response");
+            console.log(`[Bot][${chatId}] Sending response: ${displayText.substring(0, 50)}...`);
+            await sendBotResponse(ctx, response);
+            const textToSave = response.text || (response.photo ? response.photo.caption || "Photo sent" : "");
+            await addMessage(chatId, "assistant", textToSave);
+            console.log(`[Bot][${chatId}] Response sent successfully`);
+        } else {
+            console.log(`[Bot][${chatId}] No response generated`);
+        }
+    } catch (error) {
+        console.error(`[Bot][${chatId}] Error in active processing:`, error);
+    } finally {
+        if (typingInterval) clearInterval(typingInterval);
+    }
+}
+
+// Text and media the bot can describe; media are saved as "[фото] caption" and the like
+bot.on([
+  "message:text", "message:photo", "message:sticker", "message:animation", "message:video",
+  "message:video_note", "message:voice", "message:audio", "message:document",
+], async (ctx) => {
 
   const userId = ctx.from.id;
 
   const chatId = ctx.chat.id;
 
-  const text = ctx.message.text;
+  const text = describeMessage(ctx.message);
 
   const username = ctx.from.username || "Unknown";
 
@@ -699,7 +1351,7 @@ bot.on("message:text", async (ctx) => {
   let replyInfo = "";
   if (ctx.message.reply_to_message) {
     const replyToUser = ctx.message.reply_to_message.from;
-    const replyToText = ctx.message.reply_to_message.text || "[media]";
+    const replyToText = describeMessage(ctx.message.reply_to_message);
     const replyToName = replyToUser?.first_name || "Unknown";
     const replyToUsername = replyToUser?.username || "";
     replyInfo = ` (replying to ${replyToName}${replyToUsername ? ` @${replyToUsername}` : ""}: "${replyToText.substring(0, 50)}${replyToText.length > 50 ? '...' : ''}")`;
@@ -709,7 +1361,7 @@ bot.on("message:text", async (ctx) => {
 
 
 
-  resetIdleTimer(chatId);
+  await resetIdleTimer(chatId);
 
 
 
@@ -718,34 +1370,65 @@ bot.on("message:text", async (ctx) => {
   await upsertUser(userId, username, firstName);
   
   // Include reply context in the message
-  let messageToSave = text;
+  let replyContext = "";
   if (ctx.message.reply_to_message) {
     const replyToUser = ctx.message.reply_to_message.from;
-    const replyToText = ctx.message.reply_to_message.text || "[media]";
+    const replyToText = describeMessage(ctx.message.reply_to_message);
     const replyToName = replyToUser?.first_name || "Unknown";
     const replyToUsername = replyToUser?.username || "";
-    messageToSave = `[Отвечает на сообщение ${replyToName}${replyToUsername ? ` (@${replyToUsername})` : ""}: "${replyToText}"]\n${text}`;
+    replyContext = `[Отвечает на сообщение ${replyToName}${replyToUsername ? ` (@${replyToUsername})` : ""}: "${replyToText}"]\n`;
   }
 
-  await addMessage(chatId, "user", messageToSave, firstName, userId);
+  // A reply to a photo ("what's this?") lets the model see the photo too
+  const replyTo = ctx.message.reply_to_message;
+  const imageFileId = getImageFileId(ctx.message) ?? (replyTo ? getImageFileId(replyTo) : null);
+
+  const messageId = await addMessage(chatId, "user", replyContext + text, firstName, userId, imageFileId);
+
+  // Remembered so read_document can find the file by name later
+  if (ctx.message.document) {
+    await addChatDocument(chatId, userId, ctx.message.document);
+  }
 
 
 
   if (ctx.from.id === ctx.me.id) return;
 
-  // 2. Check if chat is already being processed
-  if (isProcessing(chatId)) {
-      console.log(`[Bot][${chatId}] Chat is already being processed, skipping message from ${firstName}`);
+  // Voice notes are transcribed in the chat's queue, so a slow endpoint doesn't hold up the update.
+  // The transcript replaces the saved descriptor and is checked for a mention before routing.
+  if (hasSpeech(ctx.message)) {
+      const message = ctx.message;
+      enqueueChatTask(chatId, "passive", ctx as Context, async () => {
+          const transcript = await transcribeMessage(ctx.api, message);
+          if (transcript) await updateMessageContent(messageId, replyContext + describeMessage(message, transcript));
+          await routeMessage(ctx, transcript);
+      });
       return;
   }
 
+  await routeMessage(ctx, null);
+
+});
+
+/**
+ * Answers a saved message now (private chats, mentions) or counts it into the passive batch
+ */
+async function routeMessage(ctx: Filter<Context, "message">, transcript: string | null) {
 
+  const userId = ctx.from.id;
+
+  const chatId = ctx.chat.id;
+
+  const username = ctx.from.username || "Unknown";
+
+  const firstName = ctx.from.first_name || "Anon";
 
   // 2. Determine Mode
 
   const isPrivate = ctx.chat.type === "private";
 
-  const lowerText = text.toLowerCase();
+  // Only what the user wrote or said counts as a mention, not a sticker set or file name
+  const lowerText = [ctx.message.text, ctx.message.caption, transcript].filter(Boolean).join("\n").toLowerCase();
 
   const botUsername = ctx.me.username?.toLowerCase();
 
@@ -773,130 +1456,121 @@ bot.on("message:text", async (ctx) => {
 
 
 
+  // Links first: the queue runs tasks in order, so a reply to this message already sees the summary
+  const links = await planLinkSummaries(chatId, ctx.message);
+  if (links.length > 0) {
+      enqueueChatTask(chatId, "passive", ctx as Context, () => processLinkSummaries(chatId, ctx as Context, links, isPrivate || !!isMentioned));
+  }
+
+
+
   if (isPrivate || isMentioned) {
 
       // ACTIVE MODE: Process immediately
 
       // 1. Clear any pending batch
 
-      const pending = pendingBatches.get(chatId);
+      await cancelJob("passive_batch", chatId);
 
-      if (pending) {
 
-          clearTimeout(pending.timer);
 
-          pendingBatches.delete(chatId);
+      console.log(`[Bot][${chatId}] Active trigger (${isPrivate ? 'Private' : 'Mention'}). Queueing reply (queue depth: ${getQueueDepth(chatId)}).`);
 
-      }
+      enqueueChatTask(chatId, "active", ctx as Context, (tasks) => processActiveMentions(chatId, tasks));
 
+  } else {
 
+      // PASSIVE MODE: Batching
 
-      console.log(`[Bot][${chatId}] Active trigger (${isPrivate ? 'Private' : 'Mention'}). Responding NOW.`);
-      
-      // Lock the chat to prevent concurrent processing
-      if (!lockChat(chatId)) {
-          console.log(`[Bot][${chatId}] Failed to lock chat for active processing, another request in progress`);
-          return;
-      }
+      const existing = await getJob("passive_batch", chatId);
 
-      let typingInterval: NodeJS.Timeout | null = null;
-      
-      try {
-          typingInterval = setInterval(() => { ctx.replyWithChatAction("typing").catch(() => {}); }, 4000);
-          ctx.replyWithChatAction("typing").catch(() => {});
-
-          const history = await getHistory(chatId, 15);
-          const facts = await getFacts(userId);
-          const settings = await getChatSettings(chatId);
-          const userReputation = await getReputation(userId);
-          const chatSummary = await getChatSummary(chatId);
-          const moodPrompt = MOOD_PROMPTS[settings.mood] || "";
-
-          const systemMessage = `
-            ${getBaseSystemPrompt()}
-            ${moodPrompt}
-            [КРАТКОЕ СОДЕРЖАНИЕ] ${chatSummary || "Нет"}
-            [ИНФО] Имя: ${firstName}, Репутация: ${userReputation}
-            Факты о ${firstName}: ${facts.length > 0 ? facts.join("; ") : "нет данных"}
-            
-            [ВАЖНО] В истории могут быть факты о ДРУГИХ пользователях. НЕ путай их с фактами о ${firstName}!
-            Сейчас: ${new Date().toLocaleString('ru-RU')}
-          `;
+      // The batch may start running between getJob and the update: then this message opens a new one
+      if (!existing || !(await updateJobPayload(existing.id, { messagesCount: existing.payload.messagesCount + 1, userId, username, firstName }))) {
+
+          const batch: PendingBatch = { messagesCount: 1, userId, username, firstName };
 
-          const messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
-              { role: "system", content: systemMessage },
-              ...history.map(h => ({ role: h.role as any, content: h.content, name: h.name?.replace(/[^a-zA-Z0-9_-]/g, '_') }))
-          ];
+          await scheduleJob("passive_batch", chatId, new Date(Date.now() + BATCH_DELAY), batch);
 
-          const scheduleReminder = async (s: number, t: string) => { await addReminder(chatId, userId, t, new Date(Date.now() + s * 1000)); };
+          console.log(`[Batch][${chatId}] Started 30s timer for passive batch.`);
           
-          const response = await generateResponse(messages, userId, chatId, scheduleReminder, settings.temperature, 0, false);
-
-          if (response) {
-              const displayText = response.text || (response.photo ? "Photo" : "Response");
-              console.log(`[Bot][${chatId}] Sending response: ${displayText.substring(0, 50)}...`);
-              await sendBotResponse(ctx, response);
-              const textToSave = response.text || (response.photo ? response.photo.caption || "Photo sent" : "");
-              await addMessage(chatId, "assistant", textToSave);
-              console.log(`[Bot][${chatId}] Response sent successfully`);
-          } else {
-              console.log(`[Bot][${chatId}] No response generated`);
-          }
-      } catch (error) {
-          console.error(`[Bot][${chatId}] Error in active processing:`, error);
-      } finally {
-          if (typingInterval) clearInterval(typingInterval);
-          unlockChat(chatId);
+          // В пассивном режиме суммаризация будет происходить внутри generateResponse если нужно
+
       }
 
-  } else {
+  }
 
-      // PASSIVE MODE: Batching
+}
 
-      const existing = pendingBatches.get(chatId);
 
-      if (existing) {
 
-          existing.messagesCount += 1;
+bot.catch((err) => {
 
-          existing.lastCtx = ctx;
+  console.error("Bot error:", err);
 
-      } else {
+});
 
-          const timer = setTimeout(() => processChatBatch(chatId), 30000);
 
-          pendingBatches.set(chatId, { timer, messagesCount: 1, lastCtx: ctx });
 
-          console.log(`[Batch][${chatId}] Started 30s timer for passive batch.`);
-          
-          // В пассивном режиме суммаризация будет происходить внутри generateResponse если нужно
+// --- Startup ---
+// BOT_MODE=polling (default) uses long polling via the runner.
+// BOT_MODE=webhook registers WEBHOOK_URL with Telegram and receives updates over HTTP.
+// The HTTP server (health/readiness) runs in webhook mode or whenever PORT is set.
 
-      }
+const BOT_MODE = process.env.BOT_MODE === "webhook" ? "webhook" : "polling";
+const PORT = Number(process.env.PORT) || (BOT_MODE === "webhook" ? 3000 : 0);
+const WEBHOOK_PATH = process.env.WEBHOOK_PATH || "/telegram";
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET;
 
-  }
+if (BOT_MODE === "webhook" && !process.env.WEBHOOK_URL) {
+  console.error("WEBHOOK_URL is required when BOT_MODE=webhook");
+  process.exit(1);
+}
 
-});
+// Without the secret anyone who finds the webhook URL could post fake updates
+if (BOT_MODE === "webhook" && !/^[A-Za-z0-9_-]{1,256}$/.test(WEBHOOK_SECRET || "")) {
+  console.error("WEBHOOK_SECRET (1-256 characters: A-Z, a-z, 0-9, _ and -) is required when BOT_MODE=webhook");
+  process.exit(1);
+}
 
+console.log(`Bot is starting (mode: ${BOT_MODE})...`);
 
+if (PORT) {
 
-bot.catch((err) => {
+    startHttpServer(bot, {
+        port: PORT,
+        webhook: BOT_MODE === "webhook" ? { path: WEBHOOK_PATH, secretToken: WEBHOOK_SECRET! } : undefined,
+    });
 
-  console.error("Bot error:", err);
+}
 
-});
+initDB().then(async () => {
+
+    await startScheduler();
 
+    if (BOT_MODE === "webhook") {
 
+        const webhookUrl = process.env.WEBHOOK_URL!.replace(/\/$/, "") + WEBHOOK_PATH;
 
-console.log("Bot is starting...");
+        await bot.api.setWebhook(webhookUrl, { secret_token: WEBHOOK_SECRET });
 
-initDB().then(() => {
+        console.log(`Bot is running! Webhook set to ${webhookUrl}`);
+
+    } else {
 
-    run(bot);
+        // A leftover webhook would make getUpdates fail
+        await bot.api.deleteWebhook();
 
-    console.log("Bot is running!");
+        run(bot);
+
+        console.log("Bot is running!");
+
+    }
 
 }).catch(err => {
 
-    console.error("Failed to initialize database:", err);
+    console.error("Failed to start bot:", err);
+
+    // Exit so the supervisor restarts the bot instead of /healthz reporting a broken one as alive
+    process.exit(1);
 
 });
@@ -0,0 +1,224 @@
+import { createHash } from "crypto";
+import type { Message, MessageEntity } from "grammy/types";
+import { getChatSettings, hasChatLink, claimChatLink, getLinkPreview, saveLinkPreview, deleteStaleLinkPreviews } from "./db";
+import { createChatCompletion } from "./providers";
+import { checkUrl } from "./fetchPolicy";
+import { loadArticle } from "./tools";
+
+// --- Link Summaries ---
+// With /links on, links posted in a chat get a short TL;DR: as a reply ("reply") or only as a
+// note in History that later answers can draw on ("silent"). Per-domain rules override the
+// chat's mode; LINK_SUMMARY_SKIP_DOMAINS (video and social sites, no article text there) are
+// off unless a rule says otherwise. A link is summarized once per chat. The extracted text and
+// the summary are kept in link_previews for LINK_CACHE_HOURS, shared by all chats.
+
+export const LINK_MODES = ["off", "reply", "silent"] as const;
+export type LinkMode = typeof LINK_MODES[number];
+
+export const LINK_MODE_LABELS: Record<string, string> = {
+  off: "выключен",
+  reply: "ответом",
+  silent: "молча (только для контекста)",
+};
+
+export type PlannedLink = { url: string; mode: Exclude<LinkMode, "off"> };
+export type LinkSummary = { url: string; title: string | null; summary: string };
+
+const MAX_LINKS_PER_MESSAGE = 3;
+const MAX_CONTENT_CHARS = 15000; // Stored in link_previews
+const SUMMARY_INPUT_CHARS = 8000;
+const MIN_TEXT_CHARS = 200; // Less than this is a login wall or an error page, not an article
+const CACHE_TTL_MS = (Number(process.env.LINK_CACHE_HOURS) || 24) * 60 * 60 * 1000;
+const SKIP_DOMAINS = (process.env.LINK_SUMMARY_SKIP_DOMAINS ?? "t.me,telegram.me,youtube.com,youtu.be,tiktok.com,instagram.com,x.com,twitter.com")
+  .split(",").map(d => normalizeDomain(d)).filter(Boolean);
+// Query parameters that only track where a click came from
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|yclid|mc_cid|mc_eid|_openstat)$/i;
+
+function normalizeDomain(domain: string): string {
+  return domain.trim().toLowerCase().replace(/^\*?\./, "").replace(/^www\./, "").replace(/\.$/, "");
+}
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  return hostname === domain || hostname.endsWith(`.${domain}`);
+}
+
+function hostOf(url: string): string {
+  return normalizeDomain(new URL(url).hostname);
+}
+
+/**
+ * A domain from user input ("habr.com", "https://www.habr.com/ru/"), or null
+ */
+export function parseDomain(input: string): string | null {
+  try {
+    const domain = hostOf(/^https?:\/\//i.test(input) ? input : `https://${input}`);
+    return /^[a-z0-9-]+(\.[a-z0-9-]+)+$/.test(domain) ? domain : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Chat rules with the one for `domain` replaced, or removed when `mode` is null
+ */
+export function withDomainRule(rules: string[], domain: string, mode: LinkMode | null): string[] {
+  const rest = rules.filter(r => r.split("=")[0] !== domain);
+  return mode ? [...rest, `${domain}=${mode}`] : rest;
+}
+
+/**
+ * What to do with a link: the most specific matching rule, then the skip list, then the chat's mode
+ */
+export function linkModeFor(url: string, chatMode: string | null, rules: string[]): LinkMode {
+  const host = hostOf(url);
+
+  let best: { domain: string; mode: LinkMode } | null = null;
+  for (const rule of rules) {
+    const [domain, mode] = rule.split("=");
+    if (!LINK_MODES.includes(mode as LinkMode) || !matchesDomain(host, domain)) continue;
+    if (!best || domain.length > best.domain.length) best = { domain, mode: mode as LinkMode };
+  }
+  if (best) return best.mode;
+  if (SKIP_DOMAINS.some(d => matchesDomain(host, d))) return "off";
+  return LINK_MODES.includes(chatMode as LinkMode) ? chatMode as LinkMode : "off";
+}
+
+/**
+ * Links of a message in order: bare URLs in the text or caption and hyperlinks (text_link)
+ */
+export function extractLinks(message: Message): string[] {
+  const text = message.text ?? message.caption ?? "";
+  const entities: MessageEntity[] = message.entities ?? message.caption_entities ?? [];
+  const links: string[] = [];
+
+  for (const entity of entities) {
+    let url: string | undefined;
+    if (entity.type === "text_link") url = entity.url;
+    // Telegram also marks "example.com/page" as a link; offsets are in UTF-16 units like JS strings
+    else if (entity.type === "url") url = text.substring(entity.offset, entity.offset + entity.length);
+    if (!url) continue;
+
+    if (!/^[a-z][a-z0-9+.-]*:/i.test(url)) url = `https://${url}`;
+    if (/^https?:\/\//i.test(url) && !links.includes(url)) links.push(url);
+  }
+  return links;
+}
+
+/**
+ * Dedup and cache key: the URL without the fragment, tracking parameters, "www." and a trailing slash
+ */
+export function normalizeUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.hash = "";
+  parsed.hostname = parsed.hostname.replace(/^www\./, "");
+  for (const key of [...parsed.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(key)) parsed.searchParams.delete(key);
+  }
+  if (parsed.pathname.length > 1) parsed.pathname = parsed.pathname.replace(/\/+$/, "");
+  return parsed.toString();
+}
+
+function hashUrl(url: string): string {
+  return createHash("sha256").update(normalizeUrl(url)).digest("hex");
+}
+
+/**
+ * Links of a message that should be summarized in this chat, with their modes.
+ * Cheap: doesn't fetch anything, so it's fine to call for every message.
+ */
+export async function planLinkSummaries(chatId: number, message: Message): Promise<PlannedLink[]> {
+  const links = extractLinks(message);
+  if (links.length === 0) return [];
+
+  const settings = await getChatSettings(chatId);
+  if (!settings.link_summaries && settings.link_rules.length === 0) return [];
+
+  const planned: PlannedLink[] = [];
+  for (const url of links) {
+    if (planned.length >= MAX_LINKS_PER_MESSAGE) break;
+    try {
+      checkUrl(url);
+    } catch {
+      continue; // The fetch policy would refuse it anyway
+    }
+    const mode = linkModeFor(url, settings.link_summaries, settings.link_rules);
+    if (mode === "off" || await hasChatLink(chatId, hashUrl(url))) continue;
+    planned.push({ url, mode });
+  }
+  return planned;
+}
+
+async function summarizeText(title: string | null, description: string | undefined, text: string): Promise<string | null> {
+  const prompt = `
+    Перескажи страницу для чата в 2-3 коротких предложениях по-русски: о чем она и главный вывод.
+    Без вступлений вроде "В статье говорится" и без оценок.
+    Если это не статья (страница входа, ошибка, капча, список ссылок), ответь одним словом: SKIP
+  `;
+  const page = [title && `Заголовок: ${title}`, description && `Описание: ${description}`, text.slice(0, SUMMARY_INPUT_CHARS)]
+    .filter(Boolean).join("\n\n");
+
+  const response = await createChatCompletion("summary", {
+    messages: [
+      { role: "system", content: prompt },
+      { role: "user", content: page },
+    ],
+    temperature: 0.3,
+    max_tokens: 300,
+  });
+
+  const summary = response.choices[0]?.message?.content?.trim();
+  return summary && !/^SKIP\b/i.test(summary) ? summary : null;
+}
+
+/**
+ * TL;DR of a link for a chat, from the shared cache or fetched and summarized now, and marks
+ * the link as summarized in the chat. Null when the page can't be read or has nothing to say
+ * (then it isn't marked, so posting it later tries again), or when the chat already got it.
+ */
+export async function summarizeLink(chatId: number, url: string): Promise<LinkSummary | null> {
+  const urlHash = hashUrl(url);
+  let preview: { title?: string | null; summary?: string | null } | null = await getLinkPreview(urlHash, new Date(Date.now() - CACHE_TTL_MS));
+
+  if (!preview) {
+    try {
+      const article = await loadArticle(url);
+      const text = article.text.trim();
+      const summary = text.length >= MIN_TEXT_CHARS || article.description
+        ? await summarizeText(article.title ?? null, article.description, text)
+        : null;
+      preview = { title: article.title?.slice(0, 500) ?? null, summary };
+      await saveLinkPreview({ url_hash: urlHash, url: normalizeUrl(url), title: preview.title ?? null, content: text.slice(0, MAX_CONTENT_CHARS), summary });
+      console.log(`[Links][${chatId}] Summarized ${url}: ${summary ? summary.substring(0, 50) : "nothing to summarize"}`);
+    } catch (e) {
+      console.warn(`[Links][${chatId}] Failed to summarize ${url}:`, (e as Error).message);
+      return null;
+    }
+  }
+
+  if (!preview.summary) return null;
+  // The same link posted twice before this task ran was planned twice: only one gets the summary
+  if (!(await claimChatLink(chatId, urlHash))) return null;
+  return { url, title: preview.title ?? null, summary: preview.summary };
+}
+
+/**
+ * Reply text for one or more summaries
+ */
+export function formatLinkReply(summaries: LinkSummary[]): string {
+  return summaries.map(s => `🔗 ${s.title || hostOf(s.url)}\n${s.summary}`).join("\n\n");
+}
+
+/**
+ * History note for a summary nobody was shown
+ */
+export function formatLinkNote(summary: LinkSummary): string {
+  return `[Ссылка ${summary.url}${summary.title ? ` — ${summary.title}` : ""}] Кратко: ${summary.summary}`;
+}
+
+/**
+ * Drops cached previews older than LINK_CACHE_HOURS
+ */
+export async function cleanupLinkPreviews() {
+  const removed = await deleteStaleLinkPreviews(new Date(Date.now() - CACHE_TTL_MS));
+  if (removed > 0) console.log(`[Links] Removed ${removed} stale link preview(s)`);
+}
@@ -0,0 +1,172 @@
+import OpenAI from "openai";
+import type { Api } from "grammy";
+import type { Message } from "grammy/types";
+import type { HistoryMessage } from "./db";
+import { isVisionAvailable } from "./providers";
+
+// --- Media Messages ---
+// Non-text messages are stored in History as text descriptors ("[фото] caption",
+// "[стикер 😂 из набора ...]"), so every model can follow the conversation. When a provider
+// supports vision, the latest images in the prompt are also sent as image_url parts.
+// Images are inlined as data URLs: Telegram file links contain the bot token.
+
+const MAX_IMAGES = 3; // Latest images per prompt; older ones stay as descriptors
+const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+const PREFERRED_PHOTO_SIZE = 1024; // px; larger photos only cost more tokens
+const IMAGE_CACHE_SIZE = 20;
+const DOWNLOAD_TIMEOUT_MS = 15000;
+
+const IMAGE_TYPES = new Map([
+  ["jpg", "image/jpeg"],
+  ["jpeg", "image/jpeg"],
+  ["png", "image/png"],
+  ["webp", "image/webp"],
+  ["gif", "image/gif"],
+]);
+
+const imageCache = new Map<string, string>(); // file id → data URL
+
+function formatDuration(seconds: number): string {
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+function formatSize(bytes: number): string {
+  if (bytes >= 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} МБ`;
+  return `${Math.max(1, Math.round(bytes / 1024))} КБ`;
+}
+
+// OpenAI only allows [a-zA-Z0-9_-] in message names
+function chatName(name?: string): string | undefined {
+  return name ? name.replace(/[^a-zA-Z0-9_-]/g, '_') : undefined;
+}
+
+function withCaption(descriptor: string, caption?: string): string {
+  return caption ? `${descriptor} ${caption}` : descriptor;
+}
+
+/**
+ * Text of a message, or a descriptor of its media with the caption.
+ * `transcript` is what was said in a voice message or video note.
+ */
+export function describeMessage(message: Message, transcript?: string | null): string {
+  if (message.text) return message.text;
+
+  if (message.photo) return withCaption("[фото]", message.caption);
+  if (message.sticker) {
+    const s = message.sticker;
+    const kind = s.is_animated || s.is_video ? "анимированный стикер" : "стикер";
+    return `[${kind}${s.emoji ? ` ${s.emoji}` : ""}${s.set_name ? ` из набора "${s.set_name}"` : ""}]`;
+  }
+  if (message.animation) return withCaption("[GIF]", message.caption);
+  if (message.video) return withCaption(`[видео, ${formatDuration(message.video.duration)}]`, message.caption);
+  if (message.video_note) return withCaption(`[видеосообщение, ${formatDuration(message.video_note.duration)}]`, transcript || undefined);
+  if (message.voice) {
+    const text = [transcript, message.caption].filter(Boolean).join("\n");
+    return withCaption(`[голосовое сообщение, ${formatDuration(message.voice.duration)}]`, text);
+  }
+  if (message.audio) {
+    const a = message.audio;
+    const title = [a.performer, a.title].filter(Boolean).join(" — ") || a.file_name;
+    return withCaption(`[аудио${title ? `: ${title}` : ""}, ${formatDuration(a.duration)}]`, message.caption);
+  }
+  if (message.document) {
+    const d = message.document;
+    const size = d.file_size ? `, ${formatSize(d.file_size)}` : "";
+    return withCaption(`[файл: ${d.file_name || "без имени"}${size}]`, message.caption);
+  }
+  if (message.poll) return `[опрос: ${message.poll.question}]`;
+  if (message.location) return "[геопозиция]";
+  if (message.contact) return `[контакт: ${message.contact.first_name}]`;
+
+  return "[сообщение без текста]";
+}
+
+/**
+ * File id of the picture a vision model could look at: the photo itself, a static sticker,
+ * an image document, or the preview frame of a GIF, video or animated sticker
+ */
+export function getImageFileId(message: Message): string | null {
+  if (message.photo?.length) {
+    // Sizes come smallest first
+    const size = message.photo.find(p => Math.max(p.width, p.height) >= PREFERRED_PHOTO_SIZE) || message.photo[message.photo.length - 1];
+    return size.file_id;
+  }
+  if (message.sticker) {
+    const s = message.sticker;
+    return s.is_animated || s.is_video ? s.thumbnail?.file_id ?? null : s.file_id;
+  }
+  if (message.document?.mime_type?.startsWith("image/") && (message.document.file_size ?? 0) <= MAX_IMAGE_BYTES) {
+    return message.document.file_id;
+  }
+  const preview = message.animation || message.video || message.video_note || message.document;
+  return preview?.thumbnail?.file_id ?? null;
+}
+
+/**
+ * Downloads a file from Telegram. Returns null if it's larger than maxBytes.
+ */
+export async function downloadTelegramFile(api: Api, fileId: string, maxBytes: number): Promise<{ data: Buffer; path: string } | null> {
+  const file = await api.getFile(fileId);
+  if (!file.file_path || (file.file_size ?? 0) > maxBytes) return null;
+
+  const res = await fetch(`https://api.telegram.org/file/bot${api.token}/${file.file_path}`, {
+    signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS),
+  });
+  // Never log the URL, it contains the token
+  if (!res.ok) throw new Error(`Telegram file download failed with status ${res.status}`);
+
+  const data = Buffer.from(await res.arrayBuffer());
+  return data.length > maxBytes ? null : { data, path: file.file_path };
+}
+
+async function loadImage(api: Api, fileId: string): Promise<string | null> {
+  const cached = imageCache.get(fileId);
+  if (cached) return cached;
+
+  try {
+    const file = await downloadTelegramFile(api, fileId, MAX_IMAGE_BYTES);
+    const type = file && IMAGE_TYPES.get(file.path.split(".").pop()!.toLowerCase());
+    if (!file || !type) return null;
+
+    const dataUrl = `data:${type};base64,${file.data.toString("base64")}`;
+    imageCache.set(fileId, dataUrl);
+    if (imageCache.size > IMAGE_CACHE_SIZE) imageCache.delete(imageCache.keys().next().value!);
+    return dataUrl;
+  } catch (e) {
+    console.warn(`[Media] Failed to load image ${fileId}:`, (e as Error).message);
+    return null;
+  }
+}
+
+/**
+ * History rows as chat messages; with a vision-capable provider the latest images
+ * are attached to their messages as image_url parts
+ */
+export async function historyToMessages(api: Api, history: HistoryMessage[]): Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]> {
+  const messages = history.map(h => ({
+    role: h.role,
+    content: h.content,
+    name: chatName(h.name),
+  }) as OpenAI.Chat.Completions.ChatCompletionMessageParam);
+
+  if (!isVisionAvailable()) return messages;
+
+  const withImages = history
+    .map((h, i) => ({ h, i }))
+    .filter(({ h }) => h.role === "user" && h.imageFileId)
+    .slice(-MAX_IMAGES);
+
+  for (const { h, i } of withImages) {
+    const url = await loadImage(api, h.imageFileId!);
+    if (!url) continue;
+    messages[i] = {
+      role: "user",
+      name: chatName(h.name),
+      content: [
+        { type: "text", text: h.content },
+        { type: "image_url", image_url: { url, detail: "low" } },
+      ],
+    };
+  }
+  return messages;
+}
@@ -0,0 +1,249 @@
+import { createEmbeddings } from "./providers";
+import {
+  getUnindexedFacts, getUnindexedMessages, saveEmbeddings, getFactEmbeddings,
+  getMessageEmbeddings, deleteOrphanEmbeddings, Fact,
+} from "./db";
+import { formatDateTime } from "./time";
+
+// --- Semantic Memory ---
+// Facts and past messages are embedded in the background (indexPendingMemories) and the
+// ones most similar to the current conversation are recalled into the prompt.
+// MEMORY_EMBEDDINGS: "api" - the providers' /embeddings endpoint, with local vectors kept
+// as an offline fallback; "local" - only local hashing vectors; "off" - no recall at all.
+
+const MODE = (process.env.MEMORY_EMBEDDINGS || "api").toLowerCase();
+const INDEX_BATCH = Number(process.env.MEMORY_INDEX_BATCH) || 64;
+// Minimum cosine similarity to recall something. Hashing vectors score lower than real embeddings.
+const MIN_SCORE = Number(process.env.MEMORY_MIN_SCORE) || undefined;
+const DEFAULT_MIN_SCORE = { api: 0.35, local: 0.2 };
+const MAX_FACTS = 5;
+const MAX_MESSAGES = 5;
+const MIN_MESSAGE_LENGTH = 15; // "ок", "лол" and the like are not worth remembering
+const MAX_INPUT_CHARS = 2000;
+const RECENT_HISTORY = 15; // Messages already in the prompt as history
+// How many of a chat's latest embedded messages recall scores, for every reply: keep it small on SQLite
+const MESSAGE_CANDIDATES = Number(process.env.MEMORY_MESSAGE_CANDIDATES) || 300;
+
+const LOCAL_DIMS = 512;
+export const LOCAL_MODEL = `local-hash-${LOCAL_DIMS}`;
+
+let apiModel: string | null = null; // Learned from the first successful API call
+let apiFailedAt = 0;
+const API_RETRY_MS = 1000 * 60 * 5;
+
+export type RecalledMemories = {
+  facts: string[];
+  messages: { name: string | null; content: string; sentAt: Date }[];
+};
+
+// --- Vectors ---
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0));
+  return norm > 0 ? vector.map(v => v / norm) : vector;
+}
+
+/**
+ * Offline embedding: words and their character trigrams (so "кошка" and "кошку" still
+ * overlap) hashed into a fixed-size vector with sublinear term frequency.
+ */
+export function localEmbedding(text: string): number[] {
+  const features = new Map<string, number>();
+  const add = (feature: string, weight: number) => features.set(feature, (features.get(feature) || 0) + weight);
+
+  for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []) {
+    if (word.length < 2) continue;
+    add(`w:${word}`, 1);
+    const padded = `#${word}#`;
+    for (let i = 0; i + 3 <= padded.length; i++) add(`t:${padded.slice(i, i + 3)}`, 0.5);
+  }
+
+  const vector = new Array(LOCAL_DIMS).fill(0);
+  for (const [feature, weight] of features) {
+    const hash = fnv1a(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    vector[hash % LOCAL_DIMS] += sign * (1 + Math.log(weight + 1));
+  }
+  return normalize(vector);
+}
+
+function encodeVector(vector: number[]): string {
+  return Buffer.from(new Float32Array(vector).buffer).toString("base64");
+}
+
+function decodeVector(encoded: string): Float32Array {
+  // Copy out of Node's shared buffer pool, whose offsets aren't always 4-byte aligned
+  return new Float32Array(new Uint8Array(Buffer.from(encoded, "base64")).buffer);
+}
+
+function dot(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+/**
+ * Embeds texts with every active backend. Returns model name → vectors (normalized).
+ */
+async function embedAll(texts: string[]): Promise<Map<string, number[][]>> {
+  const inputs = texts.map(t => t.slice(0, MAX_INPUT_CHARS));
+  const result = new Map<string, number[][]>();
+
+  if (MODE === "api" && Date.now() - apiFailedAt > API_RETRY_MS) {
+    try {
+      const { model, vectors } = await createEmbeddings(inputs);
+      apiModel = model;
+      result.set(model, vectors.map(normalize));
+    } catch (e) {
+      apiFailedAt = Date.now();
+      console.warn(`[Memory] Embeddings API unavailable, using local vectors for ${Math.round(API_RETRY_MS / 60000)} min:`, (e as Error).message);
+    }
+  }
+
+  result.set(LOCAL_MODEL, inputs.map(localEmbedding));
+  return result;
+}
+
+// --- Indexing ---
+
+/**
+ * Embeds facts and messages that don't have vectors yet. Runs as a periodic task.
+ */
+export async function indexPendingMemories() {
+  if (MODE === "off") return;
+
+  // Index for every model we can produce right now; the API model is only known after its first call
+  const models = [LOCAL_MODEL, ...(MODE === "api" && apiModel ? [apiModel] : [])];
+  const pending = new Map<string, { source_type: string; source_id: number; text: string }>();
+
+  for (const model of models) {
+    for (const fact of await getUnindexedFacts(model, INDEX_BATCH)) {
+      pending.set(`fact:${fact.id}`, { source_type: "fact", source_id: fact.id, text: fact.fact });
+    }
+    for (const message of await getUnindexedMessages(model, INDEX_BATCH, MIN_MESSAGE_LENGTH)) {
+      pending.set(`message:${message.id}`, { source_type: "message", source_id: message.id, text: message.name ? `${message.name}: ${message.content}` : message.content });
+    }
+  }
+  if (pending.size === 0) return;
+
+  const items = [...pending.values()].slice(0, INDEX_BATCH);
+  const embeddings = await embedAll(items.map(i => i.text));
+
+  const rows = [];
+  for (const [model, vectors] of embeddings) {
+    for (const [i, item] of items.entries()) {
+      rows.push({ source_type: item.source_type, source_id: item.source_id, model, vector: encodeVector(vectors[i]) });
+    }
+  }
+  await saveEmbeddings(rows);
+  console.log(`[Memory] Indexed ${items.length} item(s) with ${[...embeddings.keys()].join(", ")}`);
+}
+
+/**
+ * Drops vectors of deleted facts and messages
+ */
+export async function cleanupMemoryIndex() {
+  const removed = await deleteOrphanEmbeddings();
+  if (removed > 0) console.log(`[Memory] Removed ${removed} orphaned embedding(s)`);
+}
+
+// --- Recall ---
+
+/**
+ * The model to compare with: the API one when the query got an API vector, local otherwise
+ */
+function pickModel(embeddings: Map<string, number[][]>): string {
+  return apiModel && embeddings.has(apiModel) ? apiModel : LOCAL_MODEL;
+}
+
+/**
+ * The user's `facts` ranked by similarity to `text`, most similar first. Used by fact
+ * consolidation, so unlike recall it works with MEMORY_EMBEDDINGS=off (on local vectors)
+ * and embeds facts the indexer hasn't reached yet.
+ */
+export async function findSimilarFacts(userId: number, facts: Fact[], text: string, limit: number): Promise<{ id: number; fact: string; score: number }[]> {
+  if (facts.length === 0) return [];
+
+  const embeddings = await embedAll([text]);
+  const model = pickModel(embeddings);
+  const queryVector = embeddings.get(model)![0];
+
+  const stored = new Map((await getFactEmbeddings([userId], model)).map(f => [Number(f.id), decodeVector(f.vector)]));
+  const missing = facts.filter(f => !stored.has(f.id));
+  if (missing.length > 0) {
+    const vectors = model === LOCAL_MODEL
+      ? missing.map(f => localEmbedding(f.fact))
+      : (await embedAll(missing.map(f => f.fact))).get(model);
+    missing.forEach((f, i) => { if (vectors) stored.set(f.id, Float32Array.from(vectors[i])); });
+  }
+
+  return facts
+    .map(f => ({ id: f.id, fact: f.fact, score: stored.has(f.id) ? dot(queryVector, stored.get(f.id)!) : 0 }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+/**
+ * Facts about these users visible in the chat and its older messages most related to `query`.
+ * `knownFacts` are already in the prompt and are skipped.
+ */
+export async function recallMemories(chatId: number, userIds: number[], query: string, knownFacts: string[] = []): Promise<RecalledMemories> {
+  const empty: RecalledMemories = { facts: [], messages: [] };
+  if (MODE === "off" || !query.trim()) return empty;
+
+  try {
+    const embeddings = await embedAll([query]);
+    // Prefer the API model; local vectors are the fallback when the API is down
+    const model = pickModel(embeddings);
+    const queryVector = embeddings.get(model)![0];
+    const minScore = MIN_SCORE ?? (model === LOCAL_MODEL ? DEFAULT_MIN_SCORE.local : DEFAULT_MIN_SCORE.api);
+
+    const facts = (await getFactEmbeddings(userIds, model, chatId))
+      .filter(f => !knownFacts.includes(f.fact))
+      .map(f => ({ fact: f.fact, score: dot(queryVector, decodeVector(f.vector)) }))
+      .filter(f => f.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_FACTS);
+
+    const messages = (await getMessageEmbeddings(chatId, model, RECENT_HISTORY, MESSAGE_CANDIDATES))
+      .map(m => ({ ...m, score: dot(queryVector, decodeVector(m.vector)) }))
+      .filter(m => m.score >= minScore)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_MESSAGES);
+
+    console.log(`[Memory][${chatId}] Recalled ${facts.length} fact(s) and ${messages.length} message(s) with ${model}`);
+    return {
+      facts: facts.map(f => f.fact),
+      messages: messages.map(m => ({ name: m.name, content: m.content, sentAt: new Date(m.sent_at) })),
+    };
+  } catch (e) {
+    console.error(`[Memory][${chatId}] Recall failed:`, e);
+    return empty;
+  }
+}
+
+/**
+ * Prompt section for recalled memories, or "" when there is nothing to add
+ */
+export function formatMemories(memories: RecalledMemories, timeZone: string): string {
+  if (memories.facts.length === 0 && memories.messages.length === 0) return "";
+
+  let text = "[ВОСПОМИНАНИЯ] Старое, но может быть связано с тем, о чем говорят сейчас:";
+  if (memories.facts.length > 0) {
+    text += `\nФакты: ${memories.facts.join("; ")}`;
+  }
+  for (const m of memories.messages) {
+    text += `\n- [${formatDateTime(m.sentAt, timeZone)}] ${m.name ? `${m.name}: ` : ""}${m.content.slice(0, 300)}`;
+  }
+  return text;
+}
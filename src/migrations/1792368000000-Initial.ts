@@ -0,0 +1,114 @@
+import { MigrationInterface, QueryRunner, Table, TableForeignKey } from "typeorm";
+import { idColumn, createDateColumn, updateDateColumn, dateTimeType, sqlDefault } from "./util/columns";
+
+/**
+ * Baseline schema: the seven tables that used to be created by `synchronize: true`.
+ * Databases that already have them (created by synchronize) are left untouched.
+ */
+export class Initial1792368000000 implements MigrationInterface {
+    name = "Initial1792368000000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        if (await queryRunner.hasTable("users")) {
+            console.log("[Migration] Existing schema found, marking initial migration as applied.");
+            return;
+        }
+
+        await queryRunner.createTable(new Table({
+            name: "users",
+            columns: [
+                { name: "id", type: "bigint", isPrimary: true },
+                { name: "username", type: "varchar", isNullable: true },
+                { name: "first_name", type: "varchar", isNullable: true },
+                { name: "reputation", type: "integer", default: sqlDefault(queryRunner, 0) },
+            ],
+        }));
+
+        await queryRunner.createTable(new Table({
+            name: "facts",
+            columns: [
+                idColumn(),
+                { name: "user_id", type: "bigint" },
+                { name: "fact", type: "text" },
+                createDateColumn(queryRunner, "created_at"),
+                { name: "expires_at", type: dateTimeType(queryRunner), isNullable: true },
+            ],
+            foreignKeys: [
+                new TableForeignKey({
+                    name: queryRunner.connection.namingStrategy.foreignKeyName("facts", ["user_id"], "users", ["id"]),
+                    columnNames: ["user_id"],
+                    referencedTableName: "users",
+                    referencedColumnNames: ["id"],
+                }),
+            ],
+        }));
+
+        await queryRunner.createTable(new Table({
+            name: "history",
+            columns: [
+                idColumn(),
+                { name: "chat_id", type: "bigint" },
+                { name: "user_id", type: "bigint", isNullable: true },
+                { name: "role", type: "varchar", length: "50" },
+                { name: "name", type: "varchar", isNullable: true },
+                { name: "content", type: "text" },
+                createDateColumn(queryRunner, "timestamp"),
+            ],
+        }));
+
+        await queryRunner.createTable(new Table({
+            name: "relationships",
+            columns: [
+                idColumn(),
+                { name: "chat_id", type: "bigint" },
+                { name: "user_id_1", type: "bigint" },
+                { name: "user_id_2", type: "bigint" },
+                { name: "affection", type: "integer", default: sqlDefault(queryRunner, 0) },
+                { name: "status", type: "varchar", isNullable: true },
+            ],
+        }));
+
+        await queryRunner.createTable(new Table({
+            name: "chat_settings",
+            columns: [
+                { name: "chat_id", type: "bigint", isPrimary: true },
+                { name: "temperature", type: "float", default: sqlDefault(queryRunner, 0.7) },
+                { name: "mood", type: "varchar", length: "50", default: sqlDefault(queryRunner, "neutral") },
+                { name: "reply_chance", type: "integer", default: sqlDefault(queryRunner, 10) },
+                { name: "message_counter", type: "integer", default: sqlDefault(queryRunner, 0) },
+            ],
+        }));
+
+        await queryRunner.createTable(new Table({
+            name: "chat_summaries",
+            columns: [
+                { name: "chat_id", type: "bigint", isPrimary: true },
+                { name: "content", type: "text" },
+                updateDateColumn(queryRunner, "updated_at"),
+            ],
+        }));
+
+        await queryRunner.createTable(new Table({
+            name: "reminders",
+            columns: [
+                idColumn(),
+                { name: "chat_id", type: "bigint" },
+                { name: "user_id", type: "bigint" },
+                { name: "text", type: "text" },
+                { name: "due_at", type: dateTimeType(queryRunner) },
+                { name: "is_sent", type: "boolean", default: sqlDefault(queryRunner, false) },
+                createDateColumn(queryRunner, "created_at"),
+            ],
+        }));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("reminders");
+        await queryRunner.dropTable("chat_summaries");
+        await queryRunner.dropTable("chat_settings");
+        await queryRunner.dropTable("relationships");
+        await queryRunner.dropTable("history");
+        await queryRunner.dropTable("facts");
+        await queryRunner.dropTable("users");
+    }
+}
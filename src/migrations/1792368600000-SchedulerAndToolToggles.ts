@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableIndex } from "typeorm";
+import { idColumn, createDateColumn, dateTimeType } from "./util/columns";
+
+/**
+ * Adds chat_settings.disabled_tools (per-chat tool toggles) and the scheduled_jobs table
+ * used by the durable scheduler.
+ */
+export class SchedulerAndToolToggles1792368600000 implements MigrationInterface {
+    name = "SchedulerAndToolToggles1792368600000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        if (!(await queryRunner.hasColumn("chat_settings", "disabled_tools"))) {
+            await queryRunner.addColumn("chat_settings", new TableColumn({ name: "disabled_tools", type: "text", isNullable: true }));
+        }
+
+        if (!(await queryRunner.hasTable("scheduled_jobs"))) {
+            await queryRunner.createTable(new Table({
+                name: "scheduled_jobs",
+                columns: [
+                    idColumn(),
+                    { name: "type", type: "varchar", length: "50" },
+                    { name: "chat_id", type: "bigint" },
+                    { name: "run_at", type: dateTimeType(queryRunner) },
+                    { name: "payload", type: "text", isNullable: true },
+                    createDateColumn(queryRunner, "created_at"),
+                ],
+                indices: [
+                    new TableIndex({
+                        name: queryRunner.connection.namingStrategy.indexName("scheduled_jobs", ["type", "chat_id"]),
+                        columnNames: ["type", "chat_id"],
+                        isUnique: true,
+                    }),
+                ],
+            }));
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("scheduled_jobs");
+        await queryRunner.dropColumn("chat_settings", "disabled_tools");
+    }
+}
@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Adds chat_settings.member_settings: settings ordinary members are allowed to change.
+ */
+export class MemberSettings1792369800000 implements MigrationInterface {
+    name = "MemberSettings1792369800000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        if (!(await queryRunner.hasColumn("chat_settings", "member_settings"))) {
+            await queryRunner.addColumn("chat_settings", new TableColumn({ name: "member_settings", type: "text", isNullable: true }));
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("chat_settings", "member_settings");
+    }
+}
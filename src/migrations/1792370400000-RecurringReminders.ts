@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+import { dateTimeType } from "./util/columns";
+
+/**
+ * Adds recurrence to reminders: the rule, an optional end date and an optional delivery count.
+ */
+export class RecurringReminders1792370400000 implements MigrationInterface {
+    name = "RecurringReminders1792370400000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const columns = [
+            new TableColumn({ name: "recurrence", type: "varchar", length: "100", isNullable: true }),
+            new TableColumn({ name: "ends_at", type: dateTimeType(queryRunner), isNullable: true }),
+            new TableColumn({ name: "remaining_count", type: "integer", isNullable: true }),
+        ];
+
+        for (const column of columns) {
+            if (!(await queryRunner.hasColumn("reminders", column.name))) {
+                await queryRunner.addColumn("reminders", column);
+            }
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("reminders", "remaining_count");
+        await queryRunner.dropColumn("reminders", "ends_at");
+        await queryRunner.dropColumn("reminders", "recurrence");
+    }
+}
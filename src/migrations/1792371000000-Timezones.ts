@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Adds a timezone to users and chat_settings.
+ */
+export class Timezones1792371000000 implements MigrationInterface {
+    name = "Timezones1792371000000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        for (const table of ["users", "chat_settings"]) {
+            if (!(await queryRunner.hasColumn(table, "timezone"))) {
+                await queryRunner.addColumn(table, new TableColumn({ name: "timezone", type: "varchar", length: "64", isNullable: true }));
+            }
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("chat_settings", "timezone");
+        await queryRunner.dropColumn("users", "timezone");
+    }
+}
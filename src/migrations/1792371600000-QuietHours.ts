@@ -0,0 +1,29 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+import { dateTimeType, sqlDefault } from "./util/columns";
+
+/**
+ * Adds quiet hours and /mute to chat_settings, and the urgent flag to reminders.
+ */
+export class QuietHours1792371600000 implements MigrationInterface {
+    name = "QuietHours1792371600000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const columns: [string, TableColumn][] = [
+            ["chat_settings", new TableColumn({ name: "quiet_hours", type: "varchar", length: "20", isNullable: true })],
+            ["chat_settings", new TableColumn({ name: "muted_until", type: dateTimeType(queryRunner), isNullable: true })],
+            ["reminders", new TableColumn({ name: "urgent", type: "boolean", default: sqlDefault(queryRunner, false) })],
+        ];
+
+        for (const [table, column] of columns) {
+            if (!(await queryRunner.hasColumn(table, column.name))) {
+                await queryRunner.addColumn(table, column);
+            }
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("reminders", "urgent");
+        await queryRunner.dropColumn("chat_settings", "muted_until");
+        await queryRunner.dropColumn("chat_settings", "quiet_hours");
+    }
+}
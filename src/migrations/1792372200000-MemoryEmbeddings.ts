@@ -0,0 +1,36 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+import { idColumn, createDateColumn } from "./util/columns";
+
+/**
+ * Adds the memory_embeddings table: one vector per fact or message and embedding model.
+ */
+export class MemoryEmbeddings1792372200000 implements MigrationInterface {
+    name = "MemoryEmbeddings1792372200000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        if (await queryRunner.hasTable("memory_embeddings")) return;
+
+        await queryRunner.createTable(new Table({
+            name: "memory_embeddings",
+            columns: [
+                idColumn(),
+                { name: "source_type", type: "varchar", length: "20" },
+                { name: "source_id", type: "integer" },
+                { name: "model", type: "varchar", length: "100" },
+                { name: "vector", type: "text" },
+                createDateColumn(queryRunner, "created_at"),
+            ],
+            indices: [
+                new TableIndex({
+                    name: queryRunner.connection.namingStrategy.indexName("memory_embeddings", ["source_type", "source_id", "model"]),
+                    columnNames: ["source_type", "source_id", "model"],
+                    isUnique: true,
+                }),
+            ],
+        }));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("memory_embeddings");
+    }
+}
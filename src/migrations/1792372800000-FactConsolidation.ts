@@ -0,0 +1,41 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableIndex } from "typeorm";
+import { idColumn, createDateColumn, dateTimeType } from "./util/columns";
+
+/**
+ * Adds the fact_revisions audit table and users.facts_compacted_at for the compaction job.
+ */
+export class FactConsolidation1792372800000 implements MigrationInterface {
+    name = "FactConsolidation1792372800000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        if (!(await queryRunner.hasTable("fact_revisions"))) {
+            await queryRunner.createTable(new Table({
+                name: "fact_revisions",
+                columns: [
+                    idColumn(),
+                    { name: "user_id", type: "bigint" },
+                    { name: "action", type: "varchar", length: "20" },
+                    { name: "old_fact", type: "text" },
+                    { name: "new_fact", type: "text", isNullable: true },
+                    { name: "fact_id", type: "integer", isNullable: true },
+                    createDateColumn(queryRunner, "created_at"),
+                ],
+                indices: [
+                    new TableIndex({
+                        name: queryRunner.connection.namingStrategy.indexName("fact_revisions", ["user_id"]),
+                        columnNames: ["user_id"],
+                    }),
+                ],
+            }));
+        }
+
+        if (!(await queryRunner.hasColumn("users", "facts_compacted_at"))) {
+            await queryRunner.addColumn("users", new TableColumn({ name: "facts_compacted_at", type: dateTimeType(queryRunner), isNullable: true }));
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("users", "facts_compacted_at");
+        await queryRunner.dropTable("fact_revisions");
+    }
+}
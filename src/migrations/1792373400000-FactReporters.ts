@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Adds facts.reporter_id: who told the bot a fact (facts.user_id is who it's about).
+ */
+export class FactReporters1792373400000 implements MigrationInterface {
+    name = "FactReporters1792373400000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        if (!(await queryRunner.hasColumn("facts", "reporter_id"))) {
+            await queryRunner.addColumn("facts", new TableColumn({ name: "reporter_id", type: "bigint", isNullable: true }));
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("facts", "reporter_id");
+    }
+}
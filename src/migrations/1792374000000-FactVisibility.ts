@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+import { sqlDefault } from "./util/columns";
+
+/**
+ * Adds facts.chat_id and facts.visibility. Existing facts stay visible everywhere, as before.
+ */
+export class FactVisibility1792374000000 implements MigrationInterface {
+    name = "FactVisibility1792374000000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const columns = [
+            new TableColumn({ name: "chat_id", type: "bigint", isNullable: true }),
+            new TableColumn({ name: "visibility", type: "varchar", length: "10", default: sqlDefault(queryRunner, "global") }),
+        ];
+
+        for (const column of columns) {
+            if (!(await queryRunner.hasColumn("facts", column.name))) {
+                await queryRunner.addColumn("facts", column);
+            }
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("facts", "visibility");
+        await queryRunner.dropColumn("facts", "chat_id");
+    }
+}
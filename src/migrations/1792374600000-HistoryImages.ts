@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+
+/**
+ * Adds history.image_file_id: the Telegram file of a photo or sticker, for vision models.
+ */
+export class HistoryImages1792374600000 implements MigrationInterface {
+    name = "HistoryImages1792374600000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        if (!(await queryRunner.hasColumn("history", "image_file_id"))) {
+            await queryRunner.addColumn("history", new TableColumn({ name: "image_file_id", type: "varchar", length: "255", isNullable: true }));
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("history", "image_file_id");
+    }
+}
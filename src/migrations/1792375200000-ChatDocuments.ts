@@ -0,0 +1,38 @@
+import { MigrationInterface, QueryRunner, Table, TableIndex } from "typeorm";
+import { idColumn, createDateColumn } from "./util/columns";
+
+/**
+ * Adds chat_documents: files sent to chats, for the read_document tool.
+ */
+export class ChatDocuments1792375200000 implements MigrationInterface {
+    name = "ChatDocuments1792375200000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        if (await queryRunner.hasTable("chat_documents")) return;
+
+        await queryRunner.createTable(new Table({
+            name: "chat_documents",
+            columns: [
+                idColumn(),
+                { name: "chat_id", type: "bigint" },
+                { name: "user_id", type: "bigint", isNullable: true },
+                { name: "file_id", type: "varchar", length: "255" },
+                { name: "file_unique_id", type: "varchar", length: "100" },
+                { name: "file_name", type: "varchar", length: "255", isNullable: true },
+                { name: "mime_type", type: "varchar", length: "100", isNullable: true },
+                { name: "file_size", type: "integer", isNullable: true },
+                createDateColumn(queryRunner, "created_at"),
+            ],
+            indices: [
+                new TableIndex({
+                    name: queryRunner.connection.namingStrategy.indexName("chat_documents", ["chat_id"]),
+                    columnNames: ["chat_id"],
+                }),
+            ],
+        }));
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("chat_documents");
+    }
+}
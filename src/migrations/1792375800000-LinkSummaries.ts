@@ -0,0 +1,69 @@
+import { MigrationInterface, QueryRunner, Table, TableColumn, TableIndex } from "typeorm";
+import { idColumn, createDateColumn, dateTimeType } from "./util/columns";
+
+/**
+ * Adds link summaries: the /links settings in chat_settings, chat_links for deduplication
+ * and the link_previews cache.
+ */
+export class LinkSummaries1792375800000 implements MigrationInterface {
+    name = "LinkSummaries1792375800000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        for (const column of [
+            new TableColumn({ name: "link_summaries", type: "varchar", length: "10", isNullable: true }),
+            new TableColumn({ name: "link_rules", type: "text", isNullable: true }),
+        ]) {
+            if (!(await queryRunner.hasColumn("chat_settings", column.name))) {
+                await queryRunner.addColumn("chat_settings", column);
+            }
+        }
+
+        if (!(await queryRunner.hasTable("chat_links"))) {
+            await queryRunner.createTable(new Table({
+                name: "chat_links",
+                columns: [
+                    idColumn(),
+                    { name: "chat_id", type: "bigint" },
+                    { name: "url_hash", type: "varchar", length: "64" },
+                    createDateColumn(queryRunner, "created_at"),
+                ],
+                indices: [
+                    new TableIndex({
+                        name: queryRunner.connection.namingStrategy.indexName("chat_links", ["chat_id", "url_hash"]),
+                        columnNames: ["chat_id", "url_hash"],
+                        isUnique: true,
+                    }),
+                ],
+            }));
+        }
+
+        if (!(await queryRunner.hasTable("link_previews"))) {
+            await queryRunner.createTable(new Table({
+                name: "link_previews",
+                columns: [
+                    idColumn(),
+                    { name: "url_hash", type: "varchar", length: "64" },
+                    { name: "url", type: "text" },
+                    { name: "title", type: "varchar", length: "500", isNullable: true },
+                    { name: "content", type: "text" },
+                    { name: "summary", type: "text", isNullable: true },
+                    { name: "fetched_at", type: dateTimeType(queryRunner) },
+                ],
+                indices: [
+                    new TableIndex({
+                        name: queryRunner.connection.namingStrategy.indexName("link_previews", ["url_hash"]),
+                        columnNames: ["url_hash"],
+                        isUnique: true,
+                    }),
+                ],
+            }));
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropTable("link_previews");
+        await queryRunner.dropTable("chat_links");
+        await queryRunner.dropColumn("chat_settings", "link_rules");
+        await queryRunner.dropColumn("chat_settings", "link_summaries");
+    }
+}
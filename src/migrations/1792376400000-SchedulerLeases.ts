@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner, TableColumn } from "typeorm";
+import { dateTimeType, sqlDefault } from "./util/columns";
+
+/**
+ * Adds scheduled_jobs.claimed_at and attempts: due jobs are leased while they run and
+ * deleted only after their handler succeeds.
+ */
+export class SchedulerLeases1792376400000 implements MigrationInterface {
+    name = "SchedulerLeases1792376400000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        for (const column of [
+            new TableColumn({ name: "claimed_at", type: dateTimeType(queryRunner), isNullable: true }),
+            new TableColumn({ name: "attempts", type: "integer", default: sqlDefault(queryRunner, 0) }),
+        ]) {
+            if (!(await queryRunner.hasColumn("scheduled_jobs", column.name))) {
+                await queryRunner.addColumn("scheduled_jobs", column);
+            }
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropColumn("scheduled_jobs", "attempts");
+        await queryRunner.dropColumn("scheduled_jobs", "claimed_at");
+    }
+}
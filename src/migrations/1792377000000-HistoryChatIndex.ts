@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner, TableIndex } from "typeorm";
+
+/**
+ * Adds an index on history (chat_id, id): prompts and memory recall read a chat's latest messages.
+ */
+export class HistoryChatIndex1792377000000 implements MigrationInterface {
+    name = "HistoryChatIndex1792377000000";
+
+    public async up(queryRunner: QueryRunner): Promise<void> {
+        const name = queryRunner.connection.namingStrategy.indexName("history", ["chat_id", "id"]);
+        const table = await queryRunner.getTable("history");
+        if (!table?.indices.some(index => index.name === name)) {
+            await queryRunner.createIndex("history", new TableIndex({ name, columnNames: ["chat_id", "id"] }));
+        }
+    }
+
+    public async down(queryRunner: QueryRunner): Promise<void> {
+        await queryRunner.dropIndex("history", queryRunner.connection.namingStrategy.indexName("history", ["chat_id", "id"]));
+    }
+}
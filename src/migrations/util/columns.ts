@@ -0,0 +1,53 @@
+import { ColumnMetadata } from "typeorm/metadata/ColumnMetadata";
+import { QueryRunner, TableColumnOptions } from "typeorm";
+
+// Column helpers shared by migrations, so the same migration produces the schema
+// the entities expect on every supported driver.
+
+/**
+ * SQL literal for a default value, formatted the way the driver compares defaults
+ */
+export function sqlDefault(queryRunner: QueryRunner, value: string | number | boolean): string {
+    return queryRunner.connection.driver.normalizeDefault({ default: value } as ColumnMetadata)!;
+}
+
+/**
+ * Column type for plain dates (@Column({ type: Date })): datetime on MySQL/SQLite, timestamp on Postgres
+ */
+export function dateTimeType(queryRunner: QueryRunner): string {
+    return queryRunner.connection.driver.normalizeType({ type: Date });
+}
+
+/**
+ * Equivalent of @PrimaryGeneratedColumn()
+ */
+export function idColumn(): TableColumnOptions {
+    return { name: "id", type: "integer", isPrimary: true, isGenerated: true, generationStrategy: "increment" };
+}
+
+/**
+ * Equivalent of @CreateDateColumn()
+ */
+export function createDateColumn(queryRunner: QueryRunner, name: string): TableColumnOptions {
+    const types = queryRunner.connection.driver.mappedDataTypes;
+    return {
+        name,
+        type: types.createDate as string,
+        precision: types.createDatePrecision,
+        default: types.createDateDefault,
+    };
+}
+
+/**
+ * Equivalent of @UpdateDateColumn()
+ */
+export function updateDateColumn(queryRunner: QueryRunner, name: string): TableColumnOptions {
+    const types = queryRunner.connection.driver.mappedDataTypes;
+    return {
+        name,
+        type: types.updateDate as string,
+        precision: types.updateDatePrecision,
+        default: types.updateDateDefault,
+        onUpdate: types.updateDateDefault,
+    };
+}
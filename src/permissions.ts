@@ -0,0 +1,92 @@
+import { Context } from "grammy";
+import { getChatSettings } from "./db";
+
+// --- Permissions ---
+// Chat settings can be changed by chat administrators and bot owners (BOT_OWNERS, comma-separated
+// user ids, with powers in every chat). Admins may allow ordinary members to change some settings.
+
+// Settings that admins can hand over to ordinary members
+export const DELEGABLE_SETTINGS = ["temperature", "mood", "reply_chance", "tools", "timezone", "quiet_hours", "links"] as const;
+export type SettingKey = typeof DELEGABLE_SETTINGS[number];
+
+const ADMIN_CACHE_TTL = 1000 * 60 * 5; // 5 minutes
+
+const BOT_OWNERS = new Set(
+  (process.env.BOT_OWNERS || "")
+    .split(",")
+    .map(id => id.trim())
+    .filter(Boolean)
+);
+
+const adminCache = new Map<number, { ids: Set<number>; fetchedAt: number }>();
+
+export function isBotOwner(userId: number): boolean {
+  return BOT_OWNERS.has(userId.toString());
+}
+
+/**
+ * Checks administrator status via getChatAdministrators, cached per chat
+ */
+export async function isChatAdmin(ctx: Context, chatId: number, userId: number): Promise<boolean> {
+  const cached = adminCache.get(chatId);
+  if (cached && Date.now() - cached.fetchedAt < ADMIN_CACHE_TTL) {
+    return cached.ids.has(userId);
+  }
+
+  try {
+    const admins = await ctx.api.getChatAdministrators(chatId);
+    const ids = new Set(admins.map(a => a.user.id));
+    adminCache.set(chatId, { ids, fetchedAt: Date.now() });
+    return ids.has(userId);
+  } catch (e) {
+    console.error(`[Perm][${chatId}] Failed to fetch chat administrators:`, e);
+    return false;
+  }
+}
+
+/**
+ * Owners, chat admins, and in private chats the user themself
+ */
+export async function isPrivileged(ctx: Context): Promise<boolean> {
+  const userId = ctx.from?.id;
+  const chat = ctx.chat;
+  if (!userId || !chat) return false;
+
+  if (isBotOwner(userId)) return true;
+  if (chat.type === "private") return true;
+  // Messages sent on behalf of the group itself (anonymous admins). Their button presses need
+  // no such case: callback queries always come from the admin's own account, and
+  // getChatAdministrators lists anonymous admins too, so isChatAdmin lets them through.
+  if (ctx.message?.sender_chat?.id === chat.id) return true;
+
+  return await isChatAdmin(ctx, chat.id, userId);
+}
+
+export async function canChangeSetting(ctx: Context, setting: SettingKey): Promise<boolean> {
+  if (await isPrivileged(ctx)) return true;
+
+  const settings = await getChatSettings(ctx.chat!.id);
+  return settings.member_settings.includes(setting);
+}
+
+/**
+ * Replies and logs when the caller may not change the setting. Returns true if allowed.
+ */
+export async function requireSettingPermission(ctx: Context, setting: SettingKey): Promise<boolean> {
+  if (await canChangeSetting(ctx, setting)) return true;
+
+  console.warn(`[Perm][${ctx.chat?.id}] Denied ${setting} change for ${ctx.from?.first_name} (${ctx.from?.id})`);
+  await ctx.reply("⛔ Это могут менять только админы чата.").catch(() => {});
+  return false;
+}
+
+/**
+ * Same as requireSettingPermission, for actions that are never delegated to members
+ */
+export async function requireAdmin(ctx: Context): Promise<boolean> {
+  if (await isPrivileged(ctx)) return true;
+
+  console.warn(`[Perm][${ctx.chat?.id}] Denied admin action for ${ctx.from?.first_name} (${ctx.from?.id})`);
+  await ctx.reply("⛔ Это могут делать только админы чата.").catch(() => {});
+  return false;
+}
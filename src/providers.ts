@@ -0,0 +1,278 @@
+import OpenAI, { toFile } from "openai";
+import * as fs from "fs";
+
+// --- LLM Providers ---
+// One or more OpenAI-compatible endpoints tried in priority order.
+// Configure with LLM_PROVIDERS (JSON array) or LLM_PROVIDERS_FILE (path to a JSON file).
+// Without either, a single provider is built from OPENAI_BASE_URL / OPENAI_API_KEY.
+// Speech to text can use its own endpoint (STT_BASE_URL / STT_API_KEY) instead.
+
+export type ModelPurpose = "chat" | "summary" | "passive";
+
+export type ProviderConfig = {
+  name: string;
+  baseURL: string;
+  apiKey?: string;
+  model?: string; // Default model for every purpose
+  models?: Partial<Record<ModelPurpose | "embedding" | "transcription", string>>; // Per-purpose overrides
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  priority?: number; // Lower goes first
+  vision?: boolean; // The chat model accepts images; defaults to LLM_VISION
+};
+
+type Provider = {
+  config: ProviderConfig;
+  client: OpenAI;
+  unhealthyUntil: number;
+};
+
+const DEFAULT_MODEL = process.env.LLM_MODEL || "qwen/qwen3-next-80b-a3b-instruct";
+const DEFAULT_EMBEDDING_MODEL = process.env.LLM_MODEL_EMBEDDING || "text-embedding-3-small";
+const DEFAULT_TRANSCRIPTION_MODEL = process.env.LLM_MODEL_TRANSCRIPTION || "whisper-1";
+const DEFAULT_TIMEOUT_MS = 60000;
+const FAILURE_COOLDOWN_MS = Number(process.env.LLM_FAILURE_COOLDOWN_MS) || 30000;
+const DEFAULT_VISION = process.env.LLM_VISION === "true";
+
+// Global per-purpose models, used when a provider doesn't set its own model
+const PURPOSE_MODELS: Record<ModelPurpose, string | undefined> = {
+  chat: process.env.LLM_MODEL_CHAT,
+  summary: process.env.LLM_MODEL_SUMMARY,
+  passive: process.env.LLM_MODEL_PASSIVE,
+};
+
+function parseJsonEnv<T>(name: string): T | undefined {
+  const raw = process.env[name];
+  if (!raw) return undefined;
+  try {
+    return JSON.parse(raw) as T;
+  } catch (e) {
+    throw new Error(`${name} is not valid JSON: ${(e as Error).message}`);
+  }
+}
+
+export function loadProviderConfigs(): ProviderConfig[] {
+  let configs: ProviderConfig[] | undefined = parseJsonEnv<ProviderConfig[]>("LLM_PROVIDERS");
+
+  if (!configs && process.env.LLM_PROVIDERS_FILE) {
+    const raw = fs.readFileSync(process.env.LLM_PROVIDERS_FILE, "utf-8");
+    configs = JSON.parse(raw) as ProviderConfig[];
+  }
+
+  if (!configs) {
+    configs = [{
+      name: "default",
+      baseURL: process.env.OPENAI_BASE_URL || "http://localhost:1234/v1",
+      apiKey: process.env.OPENAI_API_KEY || "sk-placeholder",
+      headers: parseJsonEnv<Record<string, string>>("OPENAI_EXTRA_HEADERS"),
+    }];
+  }
+
+  if (!Array.isArray(configs) || configs.length === 0) {
+    throw new Error("LLM provider config must be a non-empty array");
+  }
+
+  for (const [i, c] of configs.entries()) {
+    if (!c.baseURL) throw new Error(`LLM provider #${i} is missing baseURL`);
+    if (!c.name) c.name = `provider-${i}`;
+  }
+
+  // Stable sort: equal priority keeps declaration order
+  return [...configs].sort((a, b) => (a.priority ?? 0) - (b.priority ?? 0));
+}
+
+function createClient(config: ProviderConfig): OpenAI {
+  return new OpenAI({
+    baseURL: config.baseURL,
+    apiKey: config.apiKey || "sk-placeholder",
+    timeout: config.timeoutMs || DEFAULT_TIMEOUT_MS,
+    maxRetries: 0, // Failover handles retries across providers
+    defaultHeaders: config.headers,
+    fetch: async (url: string | URL | Request, init?: RequestInit) => {
+      console.log(`[AI Request][${config.name}] ${init?.method || 'GET'} ${url}`);
+      // Multipart uploads (transcriptions) are streamed, and Node's fetch wants duplex set for that
+      const res = await fetch(url, init?.body ? { ...init, duplex: "half" } as RequestInit : init);
+      console.log(`[AI Response][${config.name}] ${res.status} ${res.statusText}`);
+      return res;
+    }
+  });
+}
+
+let providers: Provider[] | null = null;
+
+function getProviders(): Provider[] {
+  if (!providers) {
+    providers = loadProviderConfigs().map(config => ({ config, client: createClient(config), unhealthyUntil: 0 }));
+    console.log(`[AI] Loaded ${providers.length} LLM provider(s): ${providers.map(p => p.config.name).join(", ")}`);
+  }
+  return providers;
+}
+
+let speechProvider: Provider | null = null;
+
+/**
+ * Providers for speech to text: the dedicated STT_BASE_URL endpoint if set, the LLM providers otherwise
+ */
+function getSpeechProviders(): Provider[] {
+  const baseURL = process.env.STT_BASE_URL;
+  if (!baseURL) return getProviders();
+  if (!speechProvider) {
+    const config: ProviderConfig = { name: "stt", baseURL, apiKey: process.env.STT_API_KEY };
+    speechProvider = { config, client: createClient(config), unhealthyUntil: 0 };
+  }
+  return [speechProvider];
+}
+
+export function resolveModel(config: ProviderConfig, purpose: ModelPurpose): string {
+  return config.models?.[purpose] || config.model || PURPOSE_MODELS[purpose] || DEFAULT_MODEL;
+}
+
+/**
+ * 5xx, 429, timeouts and connection failures are worth trying on another provider.
+ * Other 4xx errors mean the request itself is bad, so failover would not help.
+ */
+export function isRetryable(error: unknown): boolean {
+  if (error instanceof OpenAI.APIConnectionError) return true;
+  if (error instanceof OpenAI.APIError) {
+    const status = error.status;
+    return status === undefined || status === 429 || status >= 500;
+  }
+  return false;
+}
+
+/**
+ * Providers that recently failed go last, in their configured order
+ */
+function healthyFirst(all: Provider[]): Provider[] {
+  const now = Date.now();
+  return [
+    ...all.filter(p => p.unhealthyUntil <= now),
+    ...all.filter(p => p.unhealthyUntil > now),
+  ];
+}
+
+export type CompletionParams = Omit<OpenAI.Chat.Completions.ChatCompletionCreateParamsNonStreaming, "model">;
+
+// Images only go to chat models of providers marked as vision-capable; summaries never get them
+const VISION_PURPOSES: ModelPurpose[] = ["chat", "passive"];
+
+function supportsVision(config: ProviderConfig): boolean {
+  return config.vision ?? DEFAULT_VISION;
+}
+
+/**
+ * True if any provider can look at images, i.e. whether downloading them is worth it
+ */
+export function isVisionAvailable(): boolean {
+  return getProviders().some(p => supportsVision(p.config));
+}
+
+/**
+ * Replaces image parts with a text placeholder for models that can't see them
+ */
+function withoutImages(messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[]): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  return messages.map(m => {
+    if (m.role !== "user" || typeof m.content === "string") return m;
+    const text = m.content.map(part => part.type === "text" ? part.text : "[изображение]").join("\n");
+    return { ...m, content: text };
+  });
+}
+
+/**
+ * Create a chat completion, failing over to the next provider on retryable errors.
+ * Providers that recently failed are tried last.
+ */
+export async function createChatCompletion(purpose: ModelPurpose, params: CompletionParams): Promise<OpenAI.Chat.Completions.ChatCompletion> {
+  let lastError: unknown;
+  for (const provider of healthyFirst(getProviders())) {
+    const model = resolveModel(provider.config, purpose);
+    const messages = VISION_PURPOSES.includes(purpose) && supportsVision(provider.config) ? params.messages : withoutImages(params.messages);
+    try {
+      const response = await provider.client.chat.completions.create({ ...params, messages, model });
+      provider.unhealthyUntil = 0;
+      return response;
+    } catch (error) {
+      lastError = error;
+      if (!isRetryable(error)) throw error;
+      provider.unhealthyUntil = Date.now() + FAILURE_COOLDOWN_MS;
+      console.warn(`[AI] Provider ${provider.config.name} (${model}) failed, trying next:`, (error as Error).message);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Embed texts with the first provider that succeeds. Chat models don't embed, so the
+ * model comes from models.embedding or LLM_MODEL_EMBEDDING, never from provider.model.
+ */
+export async function createEmbeddings(input: string[]): Promise<{ model: string; vectors: number[][] }> {
+  let lastError: unknown;
+  for (const provider of healthyFirst(getProviders())) {
+    const model = provider.config.models?.embedding || DEFAULT_EMBEDDING_MODEL;
+    try {
+      // "float" explicitly: the SDK defaults to base64, which some compatible servers ignore
+      const response = await provider.client.embeddings.create({ model, input, encoding_format: "float" });
+      const vectors = [...response.data].sort((a, b) => a.index - b.index).map(d => d.embedding);
+      if (vectors.length !== input.length || vectors.some(v => v.length === 0)) {
+        throw new Error(`Malformed embeddings response from ${provider.config.name}`);
+      }
+      return { model, vectors };
+    } catch (error) {
+      lastError = error;
+      // A provider without an embeddings endpoint answers 404; that says nothing about its chat health
+      if (!isRetryable(error) && !(error instanceof OpenAI.NotFoundError)) throw error;
+      console.warn(`[AI] Embeddings via ${provider.config.name} (${model}) failed, trying next:`, (error as Error).message);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Transcribe audio via a Whisper-compatible /audio/transcriptions endpoint, failing over like
+ * embeddings. The model comes from models.transcription or LLM_MODEL_TRANSCRIPTION.
+ */
+export async function createTranscription(audio: Buffer, filename: string, language?: string): Promise<string> {
+  let lastError: unknown;
+  for (const provider of healthyFirst(getSpeechProviders())) {
+    const model = provider.config.models?.transcription || DEFAULT_TRANSCRIPTION_MODEL;
+    try {
+      const file = await toFile(audio, filename);
+      const response = await provider.client.audio.transcriptions.create({ file, model, language, response_format: "json" });
+      provider.unhealthyUntil = 0;
+      return response.text;
+    } catch (error) {
+      lastError = error;
+      // Same as embeddings: a 404 means no such endpoint, not an unhealthy provider
+      if (!isRetryable(error) && !(error instanceof OpenAI.NotFoundError)) throw error;
+      if (isRetryable(error)) provider.unhealthyUntil = Date.now() + FAILURE_COOLDOWN_MS;
+      console.warn(`[AI] Transcription via ${provider.config.name} (${model}) failed, trying next:`, (error as Error).message);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * True if at least one provider answers HTTP at all (any status below 500).
+ * Used by the readiness probe, so it only checks the network path, not auth.
+ */
+export async function checkProvidersReachable(timeoutMs: number = 3000): Promise<boolean> {
+  for (const provider of getProviders()) {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const res = await fetch(`${provider.config.baseURL.replace(/\/$/, "")}/models`, {
+        headers: { Authorization: `Bearer ${provider.config.apiKey || ""}`, ...provider.config.headers },
+        signal: controller.signal,
+      });
+      if (res.status < 500) return true;
+    } catch {
+      // Try the next provider
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+  return false;
+}
@@ -0,0 +1,112 @@
+// --- Per-Chat Work Queue ---
+// Replaces the old "skip if locked" approach: work that arrives while a chat is busy
+// waits in a FIFO queue and runs once the current task finishes.
+
+export type TaskKind = "active" | "passive";
+
+export type ChatTask<T = unknown> = {
+  kind: TaskKind;
+  payload: T;
+  enqueuedAt: number;
+};
+
+// Receives the task being run plus any queued tasks coalesced into it (including itself)
+export type TaskRunner<T> = (tasks: ChatTask<T>[]) => Promise<void>;
+
+type ChatQueueState = {
+  tasks: { task: ChatTask<any>; run: TaskRunner<any> }[];
+  running: boolean;
+};
+
+const MAX_QUEUE_DEPTH = Number(process.env.CHAT_QUEUE_MAX_DEPTH) || 10;
+// Merge several queued mentions into a single reply
+const COALESCE_ACTIVE = process.env.CHAT_QUEUE_COALESCE === "true";
+
+const queues = new Map<number, ChatQueueState>();
+
+const stats = {
+  processed: 0,
+  dropped: 0,
+  coalesced: 0,
+  totalWaitMs: 0,
+  maxWaitMs: 0,
+};
+
+export function getQueueDepth(chatId: number): number {
+  return queues.get(chatId)?.tasks.length || 0;
+}
+
+export function getQueueStats() {
+  return {
+    ...stats,
+    avgWaitMs: stats.processed > 0 ? Math.round(stats.totalWaitMs / stats.processed) : 0,
+    activeChats: [...queues.values()].filter(q => q.running).length,
+    queuedTasks: [...queues.values()].reduce((sum, q) => sum + q.tasks.length, 0),
+  };
+}
+
+/**
+ * Add a task to the chat's queue. Returns false if the queue is full and the task was dropped.
+ */
+export function enqueueChatTask<T>(chatId: number, kind: TaskKind, payload: T, run: TaskRunner<T>): boolean {
+  let state = queues.get(chatId);
+  if (!state) {
+    state = { tasks: [], running: false };
+    queues.set(chatId, state);
+  }
+
+  if (state.tasks.length >= MAX_QUEUE_DEPTH) {
+    stats.dropped++;
+    console.warn(`[Queue][${chatId}] Queue is full (${state.tasks.length}), dropping ${kind} task`);
+    return false;
+  }
+
+  state.tasks.push({ task: { kind, payload, enqueuedAt: Date.now() }, run });
+  if (state.running) {
+    console.log(`[Queue][${chatId}] Chat busy, queued ${kind} task (depth: ${state.tasks.length})`);
+  }
+
+  void drain(chatId, state);
+  return true;
+}
+
+async function drain(chatId: number, state: ChatQueueState) {
+  if (state.running) return;
+  state.running = true;
+
+  try {
+    while (state.tasks.length > 0) {
+      const next = state.tasks.shift()!;
+      const batch = [next.task];
+
+      if (COALESCE_ACTIVE && next.task.kind === "active") {
+        // Pull every other queued mention into this run, keeping the rest in order
+        const rest = [];
+        for (const entry of state.tasks) {
+          if (entry.task.kind === "active") batch.push(entry.task);
+          else rest.push(entry);
+        }
+        state.tasks = rest;
+        stats.coalesced += batch.length - 1;
+      }
+
+      const startedAt = Date.now();
+      for (const task of batch) {
+        const waitMs = startedAt - task.enqueuedAt;
+        stats.processed++;
+        stats.totalWaitMs += waitMs;
+        stats.maxWaitMs = Math.max(stats.maxWaitMs, waitMs);
+      }
+      console.log(`[Queue][${chatId}] Running ${next.task.kind} task (batch: ${batch.length}, waited ${startedAt - next.task.enqueuedAt}ms, left: ${state.tasks.length})`);
+
+      try {
+        await next.run(batch);
+      } catch (error) {
+        console.error(`[Queue][${chatId}] Task failed:`, error);
+      }
+    }
+  } finally {
+    state.running = false;
+    queues.delete(chatId);
+  }
+}
@@ -0,0 +1,37 @@
+import { getChatSettings, resolveTimezone } from "./db";
+import { parseTimeRange, isWithinLocalWindow, nextLocalTime } from "./time";
+
+// --- Quiet Hours and Mute ---
+// Unsolicited output (idle wake-ups, non-urgent reminders) waits while a chat is quiet:
+// during its quiet hours (set with /quiet, in the chat's timezone) or while muted (/mute).
+// /mute additionally silences random passive replies. Answers to mentions are never held back.
+
+export type QuietState = {
+  reason: "muted" | "quiet_hours";
+  until: Date;
+};
+
+/**
+ * Why and until when the chat is quiet right now, or null if the bot may speak up
+ */
+export async function getQuietState(chatId: number, now: Date = new Date()): Promise<QuietState | null> {
+  const settings = await getChatSettings(chatId);
+
+  if (settings.muted_until && settings.muted_until > now) {
+    return { reason: "muted", until: settings.muted_until };
+  }
+
+  const window = settings.quiet_hours ? parseTimeRange(settings.quiet_hours) : null;
+  if (window) {
+    const timeZone = await resolveTimezone(chatId);
+    if (isWithinLocalWindow(now, timeZone, window.from, window.to)) {
+      return { reason: "quiet_hours", until: nextLocalTime(now, timeZone, window.to) };
+    }
+  }
+
+  return null;
+}
+
+export async function isMuted(chatId: number): Promise<boolean> {
+  return (await getQuietState(chatId))?.reason === "muted";
+}
@@ -0,0 +1,154 @@
+import { DEFAULT_TIMEZONE, zonedParts, zonedTime } from "./time";
+
+// --- Recurring Reminders ---
+// A recurrence rule is "daily", "weekly" or a 5-field cron expression
+// ("minute hour day-of-month month day-of-week", e.g. "0 19 * * 5").
+// Rules are evaluated on the wall clock of the reminder's timezone.
+
+export type Recurrence = {
+  rule: string;
+  endsAt?: Date; // No occurrences after this moment
+  count?: number; // Total number of deliveries
+};
+
+type CronFields = {
+  minutes: number[];
+  hours: number[];
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+};
+
+const MAX_LOOKAHEAD_DAYS = 366 * 5;
+
+function parseField(field: string, min: number, max: number): number[] | null {
+  const values = new Set<number>();
+
+  for (const part of field.split(",")) {
+    const match = part.match(/^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/);
+    if (!match) return null;
+
+    let from = min;
+    let to = max;
+    if (match[2] !== undefined) {
+      from = parseInt(match[2]);
+      // "5/15" means from 5 to the end, a bare "5" is just 5
+      to = match[3] !== undefined ? parseInt(match[3]) : match[4] !== undefined ? max : from;
+    }
+    const step = match[4] !== undefined ? parseInt(match[4]) : 1;
+
+    if (from < min || to > max || from > to || step < 1) return null;
+    for (let v = from; v <= to; v += step) values.add(v);
+  }
+
+  return [...values].sort((a, b) => a - b);
+}
+
+function parseCron(expr: string): CronFields | null {
+  const parts = expr.trim().split(/\s+/);
+  if (parts.length !== 5) return null;
+
+  const minutes = parseField(parts[0], 0, 59);
+  const hours = parseField(parts[1], 0, 23);
+  const days = parseField(parts[2], 1, 31);
+  const months = parseField(parts[3], 1, 12);
+  // 0 and 7 are both Sunday
+  const weekdays = parseField(parts[4], 0, 7)?.map(d => d % 7);
+  if (!minutes || !hours || !days || !months || !weekdays) return null;
+
+  return {
+    minutes,
+    hours,
+    days: new Set(days),
+    months: new Set(months),
+    weekdays: new Set(weekdays),
+    // Like Vixie cron, a field starting with "*" ("*/2" too) counts as unrestricted
+    anyDay: parts[2].startsWith("*"),
+    anyWeekday: parts[4].startsWith("*"),
+  };
+}
+
+function cronMatchesDay(cron: CronFields, month: number, day: number, weekday: number): boolean {
+  if (!cron.months.has(month)) return false;
+  const dayOk = cron.days.has(day);
+  const weekdayOk = cron.weekdays.has(weekday);
+  // Like cron: when both day fields are restricted, either one matching is enough
+  if (!cron.anyDay && !cron.anyWeekday) return dayOk || weekdayOk;
+  return dayOk && weekdayOk;
+}
+
+function nextCronTime(cron: CronFields, after: Date, timeZone: string): Date | null {
+  const start = zonedParts(after, timeZone);
+
+  for (let i = 0; i < MAX_LOOKAHEAD_DAYS; i++) {
+    // Calendar arithmetic on a UTC date, so it isn't affected by the server's timezone
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + i));
+    const [year, month, date] = [day.getUTCFullYear(), day.getUTCMonth() + 1, day.getUTCDate()];
+    if (!cronMatchesDay(cron, month, date, day.getUTCDay())) continue;
+
+    for (const hour of cron.hours) {
+      for (const minute of cron.minutes) {
+        const candidate = zonedTime(timeZone, year, month, date, hour, minute);
+        if (candidate > after) return candidate;
+      }
+    }
+  }
+
+  return null;
+}
+
+export function isValidRule(rule: string): boolean {
+  const normalized = rule.trim().toLowerCase();
+  return normalized === "daily" || normalized === "weekly" || parseCron(normalized) !== null;
+}
+
+/**
+ * The first occurrence of the rule strictly after `after`. For daily/weekly the time of day
+ * comes from `anchor` (the previous due time), for cron it comes from the expression.
+ */
+export function nextOccurrence(rule: string, anchor: Date, after: Date, timeZone: string = DEFAULT_TIMEZONE): Date | null {
+  const normalized = rule.trim().toLowerCase();
+
+  if (normalized === "daily" || normalized === "weekly") {
+    // Step on the wall clock, so "daily at 9:00" stays at 9:00 across DST changes
+    const stepDays = normalized === "daily" ? 1 : 7;
+    const a = zonedParts(anchor, timeZone);
+    let next: Date;
+    let steps = 0;
+    do {
+      steps++;
+      next = zonedTime(timeZone, a.year, a.month, a.day + stepDays * steps, a.hour, a.minute, a.second);
+    } while (next <= after);
+    return next;
+  }
+
+  const cron = parseCron(normalized);
+  return cron ? nextCronTime(cron, after, timeZone) : null;
+}
+
+/**
+ * Where a recurring reminder goes after a delivery: the next occurrence (skipping ones missed
+ * during downtime) and the deliveries left after it, or null when it has run out
+ */
+export function advanceRecurrence(
+  rule: string,
+  dueAt: Date,
+  now: Date,
+  timeZone: string,
+  endsAt?: Date | null,
+  remainingCount?: number | null,
+): { dueAt: Date; remainingCount?: number } | null {
+  const remaining = remainingCount != null ? remainingCount - 1 : undefined;
+  const next = nextOccurrence(rule, dueAt, now, timeZone);
+  if (remaining === 0 || !next || (endsAt && next > endsAt)) return null;
+  return { dueAt: next, remainingCount: remaining };
+}
+
+export function describeRule(rule: string): string {
+  const normalized = rule.trim().toLowerCase();
+  if (normalized === "daily") return "каждый день";
+  if (normalized === "weekly") return "каждую неделю";
+  return `cron: ${normalized}`;
+}
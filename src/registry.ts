@@ -0,0 +1,144 @@
+import OpenAI from "openai";
+import type { Recurrence } from "./recurrence";
+
+// --- Tool Registry ---
+// Every tool the model can call lives in its own module under ./toolset and
+// registers itself here. ai.ts only talks to the registry: it asks for the
+// schemas to send to the model and hands raw tool calls to runTool().
+
+export type ToolParam = {
+  type: "string" | "number" | "boolean" | "object" | "array";
+  description: string;
+  enum?: string[];
+};
+
+// Schedules a reminder in the current chat. Resolves to false if it was refused (too many pending).
+export type ReminderHandler = (seconds: number, text: string, recurrence?: Recurrence, urgent?: boolean) => Promise<boolean>;
+
+export type ToolContext = {
+  chatId: number;
+  userId: number;
+  onReminder?: ReminderHandler;
+  // Queue a photo to be sent together with the final answer
+  attachPhoto: (url: string) => void;
+};
+
+export type ToolArgs = Record<string, any>;
+
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  properties: Record<string, ToolParam>;
+  required?: string[];
+  // Alternative argument names models tend to use, e.g. { keyword: ["query", "q"] }
+  aliases?: Record<string, string[]>;
+  // Returns an error message if the (alias-resolved) arguments are invalid
+  validate?: (args: ToolArgs) => string | null;
+  execute: (args: ToolArgs, ctx: ToolContext) => Promise<string>;
+}
+
+const registry = new Map<string, ToolDefinition>();
+
+/**
+ * Normalize a tool name for lookup: models sometimes send "searchWeb" or "Search_Web"
+ */
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/_/g, "");
+}
+
+export function registerTool(def: ToolDefinition) {
+  const key = normalizeName(def.name);
+  if (registry.has(key)) {
+    throw new Error(`Tool "${def.name}" is already registered`);
+  }
+  registry.set(key, def);
+}
+
+export function getTool(name: string): ToolDefinition | undefined {
+  return registry.get(normalizeName(name));
+}
+
+export function listToolNames(): string[] {
+  return [...registry.values()].map(t => t.name);
+}
+
+/**
+ * Returns OpenAI tool schemas for all registered tools except the disabled ones
+ */
+export function getToolSchemas(disabled: string[] = []): OpenAI.Chat.Completions.ChatCompletionTool[] {
+  const disabledKeys = new Set(disabled.map(normalizeName));
+  return [...registry.entries()]
+    .filter(([key]) => !disabledKeys.has(key))
+    .map(([, def]) => ({
+      type: "function" as const,
+      function: {
+        name: def.name,
+        description: def.description,
+        parameters: {
+          type: "object",
+          properties: def.properties,
+          ...(def.required?.length ? { required: def.required } : {}),
+        },
+      },
+    }));
+}
+
+/**
+ * Map alias argument names onto their canonical names
+ */
+function resolveAliases(def: ToolDefinition, rawArgs: ToolArgs): ToolArgs {
+  const args: ToolArgs = { ...rawArgs };
+  for (const [canonical, alternatives] of Object.entries(def.aliases || {})) {
+    if (args[canonical] !== undefined && args[canonical] !== "") continue;
+    for (const alt of alternatives) {
+      if (args[alt] !== undefined && args[alt] !== "") {
+        args[canonical] = args[alt];
+        break;
+      }
+    }
+  }
+  return args;
+}
+
+/**
+ * Coerce numeric strings for "number" params, models often quote them
+ */
+function coerceTypes(def: ToolDefinition, args: ToolArgs): ToolArgs {
+  for (const [key, param] of Object.entries(def.properties)) {
+    if (param.type === "number" && typeof args[key] === "string" && args[key].trim() !== "") {
+      const num = Number(args[key]);
+      if (!isNaN(num)) args[key] = num;
+    }
+  }
+  return args;
+}
+
+/**
+ * Resolve, validate and execute a tool call. Returns the text result for the model,
+ * errors included: a failing tool shouldn't cost the user the whole answer.
+ */
+export async function runTool(name: string, rawArgs: ToolArgs, ctx: ToolContext, disabled: string[] = []): Promise<string> {
+  const def = getTool(name);
+  if (!def) return "Unknown tool.";
+
+  if (disabled.map(normalizeName).includes(normalizeName(def.name))) {
+    return `Error: Tool ${def.name} is disabled in this chat.`;
+  }
+
+  const args = coerceTypes(def, resolveAliases(def, rawArgs));
+
+  const missing = (def.required || []).filter(key => args[key] === undefined || args[key] === null || args[key] === "");
+  if (missing.length > 0) {
+    return `Error: Missing required parameters for ${def.name}: ${missing.join(", ")}`;
+  }
+
+  const validationError = def.validate?.(args);
+  if (validationError) return `Error: ${validationError}`;
+
+  try {
+    return await def.execute(args, ctx);
+  } catch (e) {
+    console.error(`[Tool][${ctx.chatId}] ${def.name} failed:`, e);
+    return `Error: ${(e as Error).message}`;
+  }
+}
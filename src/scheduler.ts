@@ -0,0 +1,155 @@
+import { upsertScheduledJob, getScheduledJob, updateScheduledJobPayload, deleteScheduledJob, getDueJobs, claimScheduledJob, completeScheduledJob, releaseScheduledJob, releaseStaleScheduledJobs, ScheduledJob } from "./db";
+
+// --- Durable Scheduler ---
+// One polling loop drives everything that has to happen later: jobs stored in the
+// scheduled_jobs table (idle wake-ups, passive batches) and periodic tasks such as
+// the reminder checker. Jobs live in the database, so they survive restarts: a due job is
+// leased while its handler runs and deleted only when it succeeds. A failed job is retried
+// after RETRY_DELAY_MS, up to MAX_ATTEMPTS times; one interrupted by a restart runs again.
+
+export type JobHandler = (chatId: number, payload: any, job: ScheduledJob) => Promise<void>;
+
+export type JobOptions = {
+  // How late a job may run before the overdue policy kicks in
+  maxLateMs?: number;
+  // What to do with a job that is later than maxLateMs (e.g. after downtime):
+  // "run" - run it anyway, "skip" - drop it, "reschedule" - run it at now + random(0..rescheduleJitterMs)
+  overdue?: "run" | "skip" | "reschedule";
+  rescheduleJitterMs?: number;
+};
+
+type PeriodicTask = {
+  name: string;
+  intervalMs: number;
+  lastRun: number;
+  fn: () => Promise<void>;
+};
+
+const TICK_INTERVAL_MS = Number(process.env.SCHEDULER_INTERVAL_MS) || 5000;
+const RETRY_DELAY_MS = 60000;
+const MAX_ATTEMPTS = 3;
+
+const handlers = new Map<string, { handler: JobHandler; options: JobOptions }>();
+const periodicTasks: PeriodicTask[] = [];
+
+let tickTimer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+export function registerJobHandler(type: string, handler: JobHandler, options: JobOptions = {}) {
+  handlers.set(type, { handler, options });
+}
+
+/**
+ * Run fn every intervalMs as part of the scheduler loop
+ */
+export function registerPeriodicTask(name: string, intervalMs: number, fn: () => Promise<void>) {
+  periodicTasks.push({ name, intervalMs, lastRun: 0, fn });
+}
+
+/**
+ * Schedule (or move) the job of this type for a chat. Only one job per type and chat exists.
+ */
+export async function scheduleJob(type: string, chatId: number, runAt: Date, payload?: any) {
+  await upsertScheduledJob(type, chatId, runAt, payload);
+}
+
+/**
+ * Returns the pending job of this type for a chat, with its payload parsed.
+ * A job whose handler is already running is not pending.
+ */
+export async function getJob(type: string, chatId: number): Promise<{ id: number; runAt: Date; payload: any } | null> {
+  const job = await getScheduledJob(type, chatId);
+  if (!job) return null;
+  return { id: job.id, runAt: new Date(job.run_at), payload: job.payload ? JSON.parse(job.payload) : undefined };
+}
+
+/**
+ * Replaces the payload of a job returned by getJob, keeping its time. Returns false if the
+ * job has started running (or is gone) in the meantime; then the new payload isn't stored.
+ */
+export async function updateJobPayload(id: number, payload: any): Promise<boolean> {
+  return await updateScheduledJobPayload(id, payload);
+}
+
+export async function cancelJob(type: string, chatId: number) {
+  await deleteScheduledJob(type, chatId);
+}
+
+async function runDueJobs() {
+  const jobs = await getDueJobs();
+  const now = Date.now();
+
+  for (const job of jobs) {
+    const entry = handlers.get(job.type);
+    if (!entry) {
+      console.warn(`[Scheduler] No handler for job type "${job.type}" (job ${job.id}), leaving it in place`);
+      continue;
+    }
+
+    if (!(await claimScheduledJob(job.id))) continue;
+
+    const chatId = parseInt(job.chat_id);
+    const payload = job.payload ? JSON.parse(job.payload) : undefined;
+    const lateMs = now - new Date(job.run_at).getTime();
+    const { maxLateMs, overdue = "run", rescheduleJitterMs = 0 } = entry.options;
+
+    if (maxLateMs !== undefined && lateMs > maxLateMs && overdue !== "run") {
+      if (overdue === "skip") {
+        console.log(`[Scheduler] Skipping overdue ${job.type} job for chat ${chatId} (late by ${Math.round(lateMs / 1000)}s)`);
+        await completeScheduledJob(job.id);
+      } else {
+        const runAt = new Date(Date.now() + Math.random() * rescheduleJitterMs);
+        console.log(`[Scheduler] Rescheduling overdue ${job.type} job for chat ${chatId} to ${runAt.toISOString()}`);
+        await scheduleJob(job.type, chatId, runAt, payload);
+      }
+      continue;
+    }
+
+    try {
+      await entry.handler(chatId, payload, job);
+    } catch (e) {
+      const outcome = await releaseScheduledJob(job.id, new Date(Date.now() + RETRY_DELAY_MS), MAX_ATTEMPTS);
+      console.error(`[Scheduler] Job ${job.type} for chat ${chatId} failed (attempt ${job.attempts + 1}, ${outcome}):`, e);
+      continue;
+    }
+    await completeScheduledJob(job.id);
+  }
+}
+
+async function tick() {
+  if (ticking) return; // Previous tick still running
+  ticking = true;
+
+  try {
+    try {
+      await runDueJobs();
+    } catch (e) {
+      console.error("[Scheduler] Error running due jobs:", e);
+    }
+
+    for (const task of periodicTasks) {
+      if (Date.now() - task.lastRun < task.intervalMs) continue;
+      task.lastRun = Date.now();
+      try {
+        await task.fn();
+      } catch (e) {
+        console.error(`[Scheduler] Periodic task ${task.name} failed:`, e);
+      }
+    }
+  } finally {
+    ticking = false;
+  }
+}
+
+/**
+ * Start the loop. Must be called after initDB; overdue jobs, and jobs the previous process
+ * didn't finish, are picked up on the first tick.
+ */
+export async function startScheduler() {
+  if (tickTimer) return;
+  const released = await releaseStaleScheduledJobs();
+  if (released > 0) console.log(`[Scheduler] Re-queued ${released} job(s) interrupted by the last shutdown`);
+  console.log(`[Scheduler] Started (tick: ${TICK_INTERVAL_MS}ms, handlers: ${[...handlers.keys()].join(", ")})`);
+  tickTimer = setInterval(tick, TICK_INTERVAL_MS);
+  void tick();
+}
@@ -0,0 +1,76 @@
+import * as http from "http";
+import { Bot, webhookCallback } from "grammy";
+import { AppDataSource } from "./db";
+import { checkProvidersReachable } from "./providers";
+
+// --- HTTP Server ---
+// Serves /healthz and /readyz, and in webhook mode also receives Telegram updates.
+
+const READY_CACHE_MS = 15000; // Don't probe the LLM endpoint on every readiness check
+
+let lastReadyCheck: { at: number; llm: boolean } | null = null;
+
+async function isLLMReachable(): Promise<boolean> {
+  if (lastReadyCheck && Date.now() - lastReadyCheck.at < READY_CACHE_MS) {
+    return lastReadyCheck.llm;
+  }
+  const llm = await checkProvidersReachable();
+  lastReadyCheck = { at: Date.now(), llm };
+  return llm;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: object) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+}
+
+export type ServerOptions = {
+  port: number;
+  // Set in webhook mode: path Telegram posts updates to, and the secret it must send
+  webhook?: {
+    path: string;
+    secretToken: string;
+  };
+};
+
+export function startHttpServer(bot: Bot, options: ServerOptions): http.Server {
+  const handleUpdate = options.webhook
+    ? webhookCallback(bot, "http", { secretToken: options.webhook.secretToken, onTimeout: "return" })
+    : null;
+
+  const server = http.createServer(async (req, res) => {
+    const url = (req.url || "/").split("?")[0];
+
+    try {
+      if (req.method === "GET" && url === "/healthz") {
+        return sendJson(res, 200, { status: "ok", uptime: Math.round(process.uptime()) });
+      }
+
+      if (req.method === "GET" && url === "/readyz") {
+        const db = AppDataSource.isInitialized;
+        const llm = await isLLMReachable();
+        return sendJson(res, db && llm ? 200 : 503, { status: db && llm ? "ready" : "not ready", db, llm });
+      }
+
+      if (handleUpdate && req.method === "POST" && url === options.webhook!.path) {
+        // Telegram redelivers updates it got an error for, so nothing is lost while the DB starts
+        if (!AppDataSource.isInitialized) {
+          return sendJson(res, 503, { error: "Starting up" });
+        }
+        // Rejects requests without the matching X-Telegram-Bot-Api-Secret-Token header
+        return await handleUpdate(req, res);
+      }
+
+      sendJson(res, 404, { error: "Not found" });
+    } catch (e) {
+      console.error(`[HTTP] Error handling ${req.method} ${url}:`, e);
+      if (!res.headersSent) sendJson(res, 500, { error: "Internal error" });
+    }
+  });
+
+  server.listen(options.port, () => {
+    console.log(`[HTTP] Listening on port ${options.port}${options.webhook ? ` (webhook: ${options.webhook.path})` : ""}`);
+  });
+
+  return server;
+}
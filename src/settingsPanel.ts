@@ -0,0 +1,158 @@
+import { Bot, Context, InlineKeyboard } from "grammy";
+import { getChatSettings, upsertChatSettings, setToolEnabled } from "./db";
+import { listToolNames } from "./registry";
+import { canChangeSetting, isPrivileged, SettingKey } from "./permissions";
+import { DEFAULT_TIMEZONE } from "./time";
+import { LINK_MODE_LABELS } from "./links";
+
+// --- Settings Panel ---
+// /settings replies with an inline keyboard. Buttons send callback queries
+// ("settings:<action>:<value>") and the panel message is edited in place.
+// The panel is a reply to the /settings message, so it knows who opened it.
+
+type PanelView = "main" | "mood" | "chance" | "tools";
+
+const CALLBACK_PREFIX = "settings";
+const TEMP_STEP = 0.1;
+const TEMP_MIN = 0;
+const TEMP_MAX = 2;
+const CHANCE_PRESETS = [0, 5, 10, 25, 50, 100];
+
+async function renderPanel(chatId: number, view: PanelView, moods: string[]): Promise<{ text: string; keyboard: InlineKeyboard }> {
+    const settings = await getChatSettings(chatId);
+    const keyboard = new InlineKeyboard();
+
+    const text =
+        "⚙️ Настройки чата:\n\n" +
+        `🌡 Температура: ${settings.temperature}\n` +
+        `🎭 Настроение: ${settings.mood}\n` +
+        `🎲 Частота ответов: ${settings.reply_chance}%\n` +
+        `🕒 Часовой пояс: ${settings.timezone || `${DEFAULT_TIMEZONE} (по умолчанию)`}\n` +
+        `🌙 Тихие часы: ${settings.quiet_hours || "нет"}${settings.muted_until && settings.muted_until > new Date() ? ", 🔇 мут" : ""}\n` +
+        `🔗 Пересказ ссылок: ${LINK_MODE_LABELS[settings.link_summaries || "off"]}${settings.link_rules.length > 0 ? ` (правил для сайтов: ${settings.link_rules.length})` : ""}\n` +
+        `🧰 Выключенные инструменты: ${settings.disabled_tools.length > 0 ? settings.disabled_tools.join(", ") : "нет"}\n` +
+        `👥 Участники могут менять: ${settings.member_settings.length > 0 ? settings.member_settings.join(", ") : "ничего (только админы)"}`;
+
+    if (view === "main") {
+        keyboard
+            .text("🌡 −", `${CALLBACK_PREFIX}:temp:down`)
+            .text(`🌡 ${settings.temperature}`, `${CALLBACK_PREFIX}:view:main`)
+            .text("🌡 +", `${CALLBACK_PREFIX}:temp:up`).row()
+            .text("🎭 Настроение", `${CALLBACK_PREFIX}:view:mood`)
+            .text("🎲 Частота", `${CALLBACK_PREFIX}:view:chance`).row()
+            .text("🧰 Инструменты", `${CALLBACK_PREFIX}:view:tools`)
+            .text("✖️ Закрыть", `${CALLBACK_PREFIX}:close`);
+    } else if (view === "mood") {
+        moods.forEach((mood, i) => {
+            keyboard.text(`${mood === settings.mood ? "• " : ""}${mood}`, `${CALLBACK_PREFIX}:mood:${mood}`);
+            if (i % 3 === 2) keyboard.row();
+        });
+        keyboard.row().text("⬅️ Назад", `${CALLBACK_PREFIX}:view:main`);
+    } else if (view === "chance") {
+        CHANCE_PRESETS.forEach((chance, i) => {
+            keyboard.text(`${chance === settings.reply_chance ? "• " : ""}${chance}%`, `${CALLBACK_PREFIX}:chance:${chance}`);
+            if (i % 3 === 2) keyboard.row();
+        });
+        keyboard.row().text("⬅️ Назад", `${CALLBACK_PREFIX}:view:main`);
+    } else {
+        for (const name of listToolNames()) {
+            const enabled = !settings.disabled_tools.includes(name);
+            keyboard.text(`${enabled ? "✅" : "🚫"} ${name}`, `${CALLBACK_PREFIX}:tool:${name}`).row();
+        }
+        keyboard.text("⬅️ Назад", `${CALLBACK_PREFIX}:view:main`);
+    }
+
+    return { text, keyboard };
+}
+
+/**
+ * Applies a button press. Returns the view to show next, or an error for the callback answer.
+ */
+async function applyAction(ctx: Context, chatId: number, action: string, value: string, moods: string[]): Promise<{ view?: PanelView; error?: string }> {
+    const permissionFor: Record<string, SettingKey> = { temp: "temperature", mood: "mood", chance: "reply_chance", tool: "tools" };
+    const setting = permissionFor[action];
+
+    if (setting && !(await canChangeSetting(ctx, setting))) {
+        console.warn(`[Perm][${chatId}] Denied ${setting} change for ${ctx.from?.first_name} (${ctx.from?.id}) via settings panel`);
+        return { error: "⛔ Это могут менять только админы чата." };
+    }
+
+    const settings = await getChatSettings(chatId);
+
+    switch (action) {
+        case "view":
+            return { view: ["main", "mood", "chance", "tools"].includes(value) ? value as PanelView : "main" };
+        case "temp": {
+            const delta = value === "up" ? TEMP_STEP : -TEMP_STEP;
+            const temp = Math.round(Math.min(TEMP_MAX, Math.max(TEMP_MIN, settings.temperature + delta)) * 10) / 10;
+            await upsertChatSettings(chatId, temp, settings.mood, settings.reply_chance);
+            return { view: "main" };
+        }
+        case "mood":
+            if (!moods.includes(value)) return { error: "Такого настроения я не знаю." };
+            await upsertChatSettings(chatId, settings.temperature, value, settings.reply_chance);
+            return { view: "mood" };
+        case "chance": {
+            const chance = parseInt(value);
+            if (!CHANCE_PRESETS.includes(chance)) return { error: "Недопустимое значение." };
+            await upsertChatSettings(chatId, settings.temperature, settings.mood, chance);
+            return { view: "chance" };
+        }
+        case "tool":
+            if (!listToolNames().includes(value)) return { error: "Такого инструмента я не знаю." };
+            await setToolEnabled(chatId, value, settings.disabled_tools.includes(value));
+            return { view: "tools" };
+        default:
+            return { error: "Неизвестное действие." };
+    }
+}
+
+export async function sendSettingsPanel(ctx: Context, moods: string[]) {
+    const { text, keyboard } = await renderPanel(ctx.chat!.id, "main", moods);
+    await ctx.reply(text, {
+        reply_markup: keyboard,
+        reply_parameters: ctx.msg ? { message_id: ctx.msg.message_id, allow_sending_without_reply: true } : undefined,
+    });
+}
+
+/**
+ * The panel can be closed by whoever opened it and by admins
+ */
+async function canClosePanel(ctx: Context): Promise<boolean> {
+    const opener = ctx.callbackQuery?.message?.reply_to_message?.from?.id;
+    return (opener !== undefined && opener === ctx.from?.id) || await isPrivileged(ctx);
+}
+
+export function registerSettingsPanel(bot: Bot, moods: string[]) {
+    bot.callbackQuery(new RegExp(`^${CALLBACK_PREFIX}:`), async (ctx) => {
+        const chatId = ctx.chat?.id;
+        if (!chatId) return ctx.answerCallbackQuery();
+
+        const [, action, value = ""] = ctx.callbackQuery.data.split(":");
+
+        if (action === "close") {
+            if (!(await canClosePanel(ctx))) {
+                console.warn(`[Perm][${chatId}] Denied closing the settings panel for ${ctx.from?.first_name} (${ctx.from?.id})`);
+                return ctx.answerCallbackQuery({ text: "⛔ Закрыть панель может тот, кто ее открыл, или админ.", show_alert: true });
+            }
+            await ctx.deleteMessage().catch(() => {});
+            return ctx.answerCallbackQuery();
+        }
+
+        const result = await applyAction(ctx, chatId, action, value, moods);
+        if (result.error) {
+            return ctx.answerCallbackQuery({ text: result.error, show_alert: true });
+        }
+
+        const { text, keyboard } = await renderPanel(chatId, result.view!, moods);
+        try {
+            await ctx.editMessageText(text, { reply_markup: keyboard });
+        } catch (e) {
+            // "message is not modified" when the value didn't change (e.g. temperature at its limit)
+            if (!(e as Error).message?.includes("message is not modified")) {
+                console.error(`[Settings][${chatId}] Failed to update panel:`, e);
+            }
+        }
+        await ctx.answerCallbackQuery();
+    });
+}
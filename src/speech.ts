@@ -0,0 +1,79 @@
+import type { Api } from "grammy";
+import type { Message } from "grammy/types";
+import { createTranscription, isRetryable } from "./providers";
+import { downloadTelegramFile } from "./media";
+
+// --- Speech to Text ---
+// Voice messages and video notes are downloaded from Telegram and sent to a Whisper-compatible
+// /audio/transcriptions endpoint (STT_BASE_URL, or the LLM providers). The transcript is saved
+// to History after the media descriptor, so the bot reads voice notes like text and a spoken
+// "бублик" counts as a mention. SPEECH_TO_TEXT=off keeps only the descriptors.
+// Transcription runs in the chat's queue after the message is saved, so a slow endpoint only
+// delays that chat. Outages (connection errors, 429, 5xx) pause it for RETRY_MS in every chat;
+// a rejected file (400 and the like) only costs that one message.
+
+const ENABLED = (process.env.SPEECH_TO_TEXT || "on").toLowerCase() !== "off";
+const LANGUAGE = process.env.STT_LANGUAGE || undefined; // ISO 639-1; the endpoint detects it when unset
+const MAX_DURATION = Number(process.env.STT_MAX_DURATION) || 600; // seconds
+const MAX_AUDIO_BYTES = 20 * 1024 * 1024; // Bot API download limit
+const RETRY_MS = 1000 * 60 * 5;
+
+let failedAt = 0;
+
+/**
+ * Telegram names voice files .oga, which Whisper endpoints reject by extension
+ */
+function audioFilename(path: string): string {
+  return path.split("/").pop()!.replace(/\.oga$/i, ".ogg");
+}
+
+/**
+ * True if the message has speech that transcribeMessage would try to transcribe
+ */
+export function hasSpeech(message: Message): boolean {
+  const media = message.voice || message.video_note;
+  return ENABLED && !!media && media.duration <= MAX_DURATION;
+}
+
+/**
+ * Text of a voice message or video note, or null when there is nothing to transcribe,
+ * transcription is off or the endpoint failed recently
+ */
+export async function transcribeMessage(api: Api, message: Message): Promise<string | null> {
+  if (!hasSpeech(message)) return null;
+  if (Date.now() - failedAt < RETRY_MS) return null;
+
+  const media = (message.voice || message.video_note)!;
+  const chatId = message.chat.id;
+  let file;
+  try {
+    file = await downloadTelegramFile(api, media.file_id, MAX_AUDIO_BYTES);
+  } catch (e) {
+    console.warn(`[Speech][${chatId}] Failed to download ${media.file_id}:`, (e as Error).message);
+    return null;
+  }
+  if (!file) return null;
+
+  const text = await transcribeAudio(chatId, file.data, audioFilename(file.path));
+  if (text) console.log(`[Speech][${chatId}] Transcribed ${media.duration}s: ${text.substring(0, 50)}${text.length > 50 ? '...' : ''}`);
+  return text;
+}
+
+/**
+ * Transcript of downloaded audio, or null if it is empty or the endpoint failed
+ */
+export async function transcribeAudio(chatId: number, data: Buffer, filename: string): Promise<string | null> {
+  if (Date.now() - failedAt < RETRY_MS) return null;
+
+  try {
+    return (await createTranscription(data, filename, LANGUAGE)).trim() || null;
+  } catch (e) {
+    if (!isRetryable(e)) {
+      console.warn(`[Speech][${chatId}] Transcription of ${filename} rejected:`, (e as Error).message);
+      return null;
+    }
+    failedAt = Date.now();
+    console.warn(`[Speech][${chatId}] Transcription unavailable for ${Math.round(RETRY_MS / 60000)} min:`, (e as Error).message);
+    return null;
+  }
+}
@@ -0,0 +1,289 @@
+// --- Time Helpers ---
+// Parsing and formatting of user-entered times and durations ("30m", "завтра в 9:00"),
+// and wall-clock math in IANA timezones (chats and users can each set their own).
+
+export const DEFAULT_TIMEZONE = process.env.BOT_TIMEZONE || Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+
+const UNIT_SECONDS: Record<string, number> = {
+  s: 1, sec: 1, с: 1, сек: 1,
+  m: 60, min: 60, м: 60, мин: 60,
+  h: 3600, hr: 3600, ч: 3600, час: 3600,
+  d: 86400, day: 86400, д: 86400, дн: 86400,
+  w: 604800, wk: 604800, н: 604800, нед: 604800,
+};
+
+/**
+ * "90s", "30m", "2h", "1.5d", "1w" (also ru: "30мин", "2ч", "3д", "1нед") → seconds, or null
+ */
+export function parseDuration(input: string): number | null {
+  const match = input.trim().toLowerCase().match(/^(\d+(?:[.,]\d+)?)\s*([a-zа-яё]+)$/);
+  if (!match) return null;
+
+  const unit = UNIT_SECONDS[match[2]];
+  if (!unit) return null;
+
+  const seconds = Math.round(parseFloat(match[1].replace(",", ".")) * unit);
+  return seconds > 0 ? seconds : null;
+}
+
+export function formatDateTime(date: Date, timeZone: string = DEFAULT_TIMEZONE): string {
+  return date.toLocaleString("ru-RU", { day: "2-digit", month: "2-digit", year: "numeric", hour: "2-digit", minute: "2-digit", timeZone });
+}
+
+// --- Timezones ---
+
+export type ZonedParts = {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+};
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone, hourCycle: "h23", weekday: "short",
+      year: "numeric", month: "numeric", day: "numeric", hour: "numeric", minute: "numeric", second: "numeric",
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Wall-clock date and time of an instant in a timezone
+ */
+export function zonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, string> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) parts[part.type] = part.value;
+  return {
+    year: parseInt(parts.year),
+    month: parseInt(parts.month),
+    day: parseInt(parts.day),
+    hour: parseInt(parts.hour),
+    minute: parseInt(parts.minute),
+    second: parseInt(parts.second),
+    weekday: WEEKDAYS[parts.weekday],
+  };
+}
+
+function offsetMs(date: Date, timeZone: string): number {
+  const p = zonedParts(date, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * The instant when the clock in timeZone shows the given wall-clock time.
+ * Out-of-range fields roll over like Date.UTC (day 32 is the 1st of the next month).
+ */
+export function zonedTime(timeZone: string, year: number, month: number, day: number, hour: number = 0, minute: number = 0, second: number = 0): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second);
+  // The offset at the guess can differ from the offset at the result around DST changes
+  const guess = wallClock - offsetMs(new Date(wallClock), timeZone);
+  return new Date(wallClock - offsetMs(new Date(guess), timeZone));
+}
+
+/**
+ * "Europe/Berlin", "utc", "UTC+3", "+05:00" (whole hours) → canonical IANA name, or null if unknown
+ */
+export function normalizeTimezone(input: string): string | null {
+  const trimmed = input.trim();
+  if (/^(utc|gmt)$/i.test(trimmed)) return "UTC";
+
+  const offset = trimmed.match(/^(?:utc|gmt)?\s*([+-])(\d{1,2})(?::?00)?$/i);
+  if (offset) {
+    const hours = parseInt(offset[2]);
+    if (hours > 14) return null;
+    // Etc/GMT zones have inverted signs: UTC+3 is Etc/GMT-3
+    return hours === 0 ? "UTC" : `Etc/GMT${offset[1] === "+" ? "-" : "+"}${hours}`;
+  }
+
+  try {
+    return new Intl.DateTimeFormat("en-US", { timeZone: trimmed }).resolvedOptions().timeZone;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * "9-23", "22:30-07:00" → minutes since midnight, or null. The range may wrap past midnight.
+ */
+export function parseTimeRange(input: string): { from: number; to: number } | null {
+  const match = input.trim().match(/^(\d{1,2})(?::(\d{2}))?\s*-\s*(\d{1,2})(?::(\d{2}))?$/);
+  if (!match) return null;
+
+  const from = parseInt(match[1]) * 60 + parseInt(match[2] || "0");
+  const to = parseInt(match[3]) * 60 + parseInt(match[4] || "0");
+  if (from > 24 * 60 || to > 24 * 60 || from === to) return null;
+  return { from, to };
+}
+
+/**
+ * True if the local time in timeZone falls in [from, to) (minutes since midnight, wrapping past midnight)
+ */
+export function isWithinLocalWindow(date: Date, timeZone: string, from: number, to: number): boolean {
+  const { hour, minute } = zonedParts(date, timeZone);
+  const now = hour * 60 + minute;
+  return from <= to ? now >= from && now < to : now >= from || now < to;
+}
+
+/**
+ * The first moment at or after `date` when the local clock in timeZone shows `minutes` since midnight
+ */
+export function nextLocalTime(date: Date, timeZone: string, minutes: number): Date {
+  const p = zonedParts(date, timeZone);
+  const today = zonedTime(timeZone, p.year, p.month, p.day, 0, minutes);
+  return today >= date ? today : zonedTime(timeZone, p.year, p.month, p.day + 1, 0, minutes);
+}
+
+const NUMBER_WORDS = new Map<string, number>(Object.entries({
+  a: 1, an: 1, one: 1, один: 1, одна: 1, одну: 1,
+  two: 2, два: 2, две: 2, пару: 2,
+  three: 3, три: 3, four: 4, четыре: 4, five: 5, пять: 5,
+  ten: 10, десять: 10, fifteen: 15, пятнадцать: 15,
+  twenty: 20, двадцать: 20, thirty: 30, тридцать: 30,
+}));
+
+const DAY_WORDS = new Map<string, number>(Object.entries({
+  сегодня: 0, today: 0, завтра: 1, tomorrow: 1, послезавтра: 2,
+}));
+
+function unitSeconds(word: string): number | null {
+  if (/^(s|secs?|seconds?|с|сек|секунд[уы]?)$/.test(word)) return 1;
+  if (/^(m|mins?|minutes?|м|мин|минут[уы]?)$/.test(word)) return 60;
+  if (/^(h|hrs?|hours?|ч|час|часа|часов)$/.test(word)) return 3600;
+  if (/^(d|days?|д|дн|день|дня|дней)$/.test(word)) return 86400;
+  if (/^(w|weeks?|нед|неделю|недели|недель)$/.test(word)) return 604800;
+  return null;
+}
+
+/**
+ * "через 2 часа", "через полчаса", "in 30 minutes", "in 30m", "30m" at the start of the tokens
+ * → [seconds, tokens consumed]
+ */
+function parseRelative(tokens: string[]): [number, number] | null {
+  let i = 0;
+  const hasPrefix = tokens[0] === "через" || tokens[0] === "in";
+  if (hasPrefix) i++;
+
+  const first = tokens[i];
+  if (!first) return null;
+
+  if (hasPrefix && first === "полчаса") return [1800, i + 1];
+
+  const compact = parseDuration(first);
+  if (compact) return [compact, i + 1];
+  if (!hasPrefix) return null;
+
+  const number = /^\d+([.,]\d+)?$/.test(first) ? parseFloat(first.replace(",", ".")) : NUMBER_WORDS.get(first);
+  if (number !== undefined) {
+    const unit = tokens[i + 1] && unitSeconds(tokens[i + 1]);
+    return unit ? [Math.round(number * unit), i + 2] : null;
+  }
+
+  // "через час", "in a minute" without a number
+  const unit = unitSeconds(first);
+  return unit ? [unit, i + 1] : null;
+}
+
+/**
+ * "завтра в 9:00", "сегодня в 18:30", "в 7 вечера", "tomorrow at 9am", "at 18:00"
+ * → [date, tokens consumed, whether it has passed]. A time that already passed today means
+ * tomorrow, unless the day was named: "сегодня в 9:00" at 10:00 is in the past.
+ */
+function parseAbsolute(tokens: string[], now: Date, timeZone: string): [Date, number, boolean] | null {
+  let i = 0;
+  let dayOffset: number | null = null;
+
+  if (DAY_WORDS.has(tokens[0])) {
+    dayOffset = DAY_WORDS.get(tokens[0])!;
+    i++;
+  }
+
+  if (tokens[i] === "в" || tokens[i] === "at") i++;
+
+  const timeMatch = tokens[i]?.match(/^(\d{1,2})(?:[:.](\d{2}))?(am|pm)?$/);
+  let hours: number | null = null;
+  let minutes = 0;
+
+  if (timeMatch && (timeMatch[2] || timeMatch[3] || i > 0)) {
+    hours = parseInt(timeMatch[1]);
+    minutes = timeMatch[2] ? parseInt(timeMatch[2]) : 0;
+    i++;
+
+    const meridiem = timeMatch[3] || tokens[i];
+    if (meridiem === "pm" || meridiem === "вечера" || meridiem === "дня") {
+      if (hours < 12) hours += 12;
+    } else if ((meridiem === "am" || meridiem === "ночи" || meridiem === "утра") && hours === 12) {
+      hours = 0;
+    }
+    if (!timeMatch[3] && ["вечера", "дня", "утра", "ночи"].includes(tokens[i])) i++;
+
+    if (hours > 23 || minutes > 59) return null;
+  } else if (dayOffset === null) {
+    return null;
+  } else {
+    // Only a day given: go back before the dangling "в"/"at"
+    i = 1;
+  }
+
+  // "завтра" alone means tomorrow morning
+  if (hours === null) hours = 9;
+
+  const today = zonedParts(now, timeZone);
+  let date = zonedTime(timeZone, today.year, today.month, today.day + (dayOffset ?? 0), hours, minutes);
+
+  if (date <= now) {
+    if (dayOffset !== null) return [date, i, true];
+    date = zonedTime(timeZone, today.year, today.month, today.day + 1, hours, minutes);
+  }
+
+  return [date, i, false];
+}
+
+/**
+ * Parses a time expression at the start of the input, in Russian or English, with clock
+ * times read in timeZone. Returns the due date and the rest of the text, or null if no time was recognized.
+ * `passed` is set when the time was recognized but is already over ("сегодня в 9:00" after 9:00).
+ */
+export function parseReminderTime(input: string, timeZone: string = DEFAULT_TIMEZONE, now: Date = new Date()): { dueAt: Date; text: string; passed?: boolean } | null {
+  const words = input.trim().split(/\s+/);
+  const tokens = words.map(w => w.toLowerCase().replace(/[,:;—-]+$/, ""));
+
+  const relative = parseRelative(tokens);
+  if (relative) {
+    const [seconds, consumed] = relative;
+    return { dueAt: new Date(now.getTime() + seconds * 1000), text: words.slice(consumed).join(" ").replace(/^[,:;—-]\s*/, "") };
+  }
+
+  const absolute = parseAbsolute(tokens, now, timeZone);
+  if (absolute) {
+    const [dueAt, consumed, passed] = absolute;
+    return { dueAt, text: words.slice(consumed).join(" ").replace(/^[,:;—-]\s*/, ""), ...(passed ? { passed } : {}) };
+  }
+
+  return null;
+}
+
+/**
+ * "2026-12-31" or "31.12.2026" → the end of that day in timeZone; other inputs go through Date parsing
+ */
+export function parseEndDate(input: string, timeZone: string = DEFAULT_TIMEZONE): Date | null {
+  const trimmed = input.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+  const ru = trimmed.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+
+  let date: Date;
+  if (iso) date = zonedTime(timeZone, parseInt(iso[1]), parseInt(iso[2]), parseInt(iso[3]), 23, 59, 59);
+  else if (ru) date = zonedTime(timeZone, parseInt(ru[3]), parseInt(ru[2]), parseInt(ru[1]), 23, 59, 59);
+  else date = new Date(trimmed);
+
+  return isNaN(date.getTime()) ? null : date;
+}
@@ -1,6 +1,10 @@
 // tools.ts
 // Real implementation of tools (no mocks)
 
+import { Article, extractArticle, decodeHtml } from "./articles";
+import { chunkText } from "./documents";
+import { checkUrl, policyFetch, gotPolicyOptions, isAllowedContentType, maxResponseBytes, tooLarge, FetchBlockedError } from "./fetchPolicy";
+
 type DuckDuckGoResponse = {
   AbstractText?: string;
   RelatedTopics?: Array<{
@@ -114,128 +118,150 @@ export async function getFunnyImage(query: string = "funny"): Promise<string> {
   });
 }
 
+const PAGE_TIMEOUT_MS = 10000;
+const MAX_PAGE_BYTES = 5 * 1024 * 1024;
+const PAGE_CONTENT_TYPES = ["text/", "application/xhtml+xml"];
+const ARTICLE_PART_CHARS = 6000; // ai.ts truncates tool results at 10000
+const ARTICLE_CACHE_SIZE = 20;
+
+const articleCache = new Map<string, Article>(); // URL → article, so later parts don't refetch
+
+// The only ES module import in the bot. Under CommonJS TypeScript compiles import() to require(),
+// and got-scraping is ESM-only (its package exports have no require entry), so require() fails.
+// Inside a Function the import() survives compilation; callers name the module type themselves.
+const importEsm = new Function("specifier", "return import(specifier)") as <T>(specifier: string) => Promise<T>;
+
+/**
+ * The policy refusal behind an error, if that's what it is (got wraps errors from dnsLookup and hooks)
+ */
+function blockedReason(error: unknown): FetchBlockedError | null {
+  if (error instanceof FetchBlockedError) return error;
+  const cause = (error as { cause?: unknown })?.cause;
+  return cause instanceof FetchBlockedError ? cause : null;
+}
+
 /**
- * Extract content from a URL - scrapes webpage and extracts useful information
- * Uses got-scraping for better success with protected sites
+ * Downloads a page as raw bytes (decoding is up to decodeHtml) under the fetch policy.
+ * Tries got-scraping first, it gets through more bot protection, then a plain request.
  */
-export async function extractUrlContent(url: string): Promise<string> {
-  console.log(`[Tool] Extracting content from URL: ${url}`);
+async function downloadPage(url: string): Promise<{ body: Buffer; contentType: string | null }> {
+  checkUrl(url);
+  const maxBytes = maxResponseBytes(MAX_PAGE_BYTES);
 
   try {
-    // Dynamic import for ES module
-    const { gotScraping } = await import('got-scraping');
-    
-    const response = await gotScraping({
+    const { gotScraping } = await importEsm<typeof import('got-scraping')>('got-scraping');
+
+    const request = gotScraping({
       url: url,
+      ...gotPolicyOptions(),
       timeout: {
-        request: 10000, // 10 second timeout
+        request: PAGE_TIMEOUT_MS,
       },
       retry: {
         limit: 2,
       },
       headers: {
         'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
+        'Accept-Language': 'ru,en-US;q=0.7,en;q=0.5',
         'Cache-Control': 'no-cache',
         'Pragma': 'no-cache',
       },
     });
+    let cancelled = false;
+    request.on('downloadProgress', (progress: { transferred: number }) => {
+      if (progress.transferred > maxBytes && !cancelled) {
+        cancelled = true;
+        request.cancel();
+      }
+    });
 
-    const html = response.body;
-    
-    // Extract useful content using simple regex patterns
-    const extractedData: any = {};
-
-    // Title
-    const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-    if (titleMatch) {
-      extractedData.title = titleMatch[1].trim().replace(/&[^;]+;/g, ' ').replace(/\s+/g, ' ');
+    const response = await request.catch((error: unknown) => {
+      if (cancelled) throw tooLarge(maxBytes);
+      throw error;
+    });
+    const contentType = response.headers['content-type'] ?? null;
+    if (!isAllowedContentType(contentType, PAGE_CONTENT_TYPES)) {
+      throw new FetchBlockedError(`Unsupported content type ${contentType}`);
     }
+    return { body: response.rawBody, contentType };
+  } catch (error) {
+    // Refused by the policy: the fallback would be refused too
+    const blocked = blockedReason(error);
+    if (blocked) throw blocked;
+    console.error(`[Tool] got-scraping failed for ${url}, trying fallback fetch:`, (error as Error).message);
 
-    // Meta description
-    const descMatch = html.match(/<meta[^>]*name=["']description["'][^>]*content=["']([^"']+)["'][^>]*>/i);
-    if (descMatch) {
-      extractedData.description = descMatch[1].trim().replace(/&[^;]+;/g, ' ').replace(/\s+/g, ' ');
-    }
+    const response = await policyFetch(url, {
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+        'Accept-Language': 'ru,en-US;q=0.7,en;q=0.5',
+      },
+      timeoutMs: PAGE_TIMEOUT_MS,
+      maxBytes,
+      contentTypes: PAGE_CONTENT_TYPES,
+    }).catch((fallbackError: unknown) => {
+      if (fallbackError instanceof FetchBlockedError) throw fallbackError;
+      return null;
+    });
 
-    // Open Graph data
-    const ogTitleMatch = html.match(/<meta[^>]*property=["']og:title["'][^>]*content=["']([^"']+)["'][^>]*>/i);
-    if (ogTitleMatch) {
-      extractedData.ogTitle = ogTitleMatch[1].trim().replace(/&[^;]+;/g, ' ').replace(/\s+/g, ' ');
-    }
+    // The first error says more (403, 404, timeout) than the fallback's
+    if (!response || response.status < 200 || response.status >= 300) throw error;
+    return { body: response.body, contentType: response.contentType };
+  }
+}
 
-    const ogDescMatch = html.match(/<meta[^>]*property=["']og:description["'][^>]*content=["']([^"']+)["'][^>]*>/i);
-    if (ogDescMatch) {
-      extractedData.ogDescription = ogDescMatch[1].trim().replace(/&[^;]+;/g, ' ').replace(/\s+/g, ' ');
-    }
+/**
+ * A page's article, from the in-memory cache or downloaded under the fetch policy
+ */
+export async function loadArticle(url: string): Promise<Article> {
+  const cached = articleCache.get(url);
+  if (cached) return cached;
+
+  const { body, contentType } = await downloadPage(url);
+  const article = extractArticle(decodeHtml(body, contentType), url);
+  articleCache.set(url, article);
+  if (articleCache.size > ARTICLE_CACHE_SIZE) articleCache.delete(articleCache.keys().next().value!);
+  return article;
+}
 
-    const ogImageMatch = html.match(/<meta[^>]*property=["']og:image["'][^>]*content=["']([^"']+)["'][^>]*>/i);
-    if (ogImageMatch) {
-      extractedData.ogImage = ogImageMatch[1].trim();
-    }
+/**
+ * Extract content from a URL - scrapes webpage and extracts useful information.
+ * Long articles are split into parts; `part` (1-based) picks which one to return.
+ */
+export async function extractUrlContent(url: string, part: number = 1): Promise<string> {
+  console.log(`[Tool] Extracting content from URL: ${url}${part > 1 ? ` (part ${part})` : ''}`);
 
-    // Extract main content (simplified approach)
-    // Remove script and style tags
-    let cleanHtml = html.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '');
-    cleanHtml = cleanHtml.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '');
-    cleanHtml = cleanHtml.replace(/<!--[\s\S]*?-->/gi, '');
-    
-    // Extract text from common content containers
-    const contentPatterns = [
-      /<article[^>]*>([\s\S]*?)<\/article>/gi,
-      /<main[^>]*>([\s\S]*?)<\/main>/gi,
-      /<div[^>]*class=["'][^"']*content[^"']*["'][^>]*>([\s\S]*?)<\/div>/gi,
-      /<div[^>]*class=["'][^"']*post[^"']*["'][^>]*>([\s\S]*?)<\/div>/gi,
-      /<div[^>]*class=["'][^"']*description[^"']*["'][^>]*>([\s\S]*?)<\/div>/gi,
-      /<section[^>]*>([\s\S]*?)<\/section>/gi,
-    ];
-
-    let mainContent = '';
-    for (const pattern of contentPatterns) {
-      const matches = cleanHtml.match(pattern);
-      if (matches && matches.length > 0) {
-        mainContent = matches[0];
-        break;
-      }
-    }
+  try {
+    const article = await loadArticle(url);
 
-    // If no structured content found, try to extract from body
-    if (!mainContent) {
-      const bodyMatch = cleanHtml.match(/<body[^>]*>([\s\S]*?)<\/body>/gi);
-      if (bodyMatch && bodyMatch.length > 0) {
-        mainContent = bodyMatch[0];
-      }
+    const parts = chunkText(article.text, ARTICLE_PART_CHARS);
+    if (part > 1 && part > parts.length) {
+      return `Частей в статье ${url}: ${parts.length}, части ${part} нет.`;
     }
+    const index = Math.max(1, Math.floor(part) || 1) - 1;
+    const result = [];
 
-    if (mainContent) {
-      // Strip HTML tags and clean up
-      mainContent = mainContent.replace(/<[^>]+>/g, ' ');
-      mainContent = mainContent.replace(/&[^;]+;/g, ' '); // Remove HTML entities
-      mainContent = mainContent.replace(/\s+/g, ' ').trim();
-      // Limit to first 1500 characters
-      if (mainContent.length > 1500) {
-        mainContent = mainContent.substring(0, 1500) + '...';
-      }
-      extractedData.content = mainContent;
-    }
+    // Metadata only with the first part, later parts are just more text
+    if (index === 0) {
+      if (article.title) result.push(`**Заголовок:** ${article.title}`);
 
-    // Format the result
-    const result = [];
-    
-    if (extractedData.title || extractedData.ogTitle) {
-      result.push(`**Заголовок:** ${extractedData.ogTitle || extractedData.title}`);
-    }
-    
-    if (extractedData.description || extractedData.ogDescription) {
-      result.push(`**Описание:** ${extractedData.ogDescription || extractedData.description}`);
-    }
-    
-    if (extractedData.ogImage) {
-      result.push(`**Изображение:** ${extractedData.ogImage}`);
+      const details = [
+        article.siteName && `**Сайт:** ${article.siteName}`,
+        article.author && `**Автор:** ${article.author}`,
+        article.published && `**Опубликовано:** ${article.published}`,
+      ].filter(Boolean);
+      if (details.length > 0) result.push(details.join(' | '));
+
+      if (article.description) result.push(`**Описание:** ${article.description}`);
+      if (article.image) result.push(`**Изображение:** ${article.image}`);
     }
-    
-    if (extractedData.content && extractedData.content.length > 50) {
-      result.push(`**Содержимое:** ${extractedData.content}`);
+
+    if (parts.length > 0 && article.text.length > 50) {
+      const label = parts.length > 1 ? `Содержимое (часть ${index + 1} из ${parts.length})` : 'Содержимое';
+      result.push(`**${label}:**\n${parts[index]}`);
+      if (index + 1 < parts.length) {
+        result.push(`_Продолжение: extract_url_content с part=${index + 2}_`);
+      }
     }
 
     if (result.length === 0) {
@@ -245,38 +271,17 @@ export async function extractUrlContent(url: string): Promise<string> {
     return result.join('\n\n');
 
   } catch (error) {
-    console.error(`[Tool] Error extracting content from ${url}:`, error);
-    
-    // Fallback to regular fetch if got-scraping fails
-    try {
-      console.log(`[Tool] Trying fallback fetch for ${url}`);
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 8000);
-
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-        },
-        signal: controller.signal,
-      });
-
-      clearTimeout(timeoutId);
-
-      if (response.ok) {
-        const html = await response.text();
-        const titleMatch = html.match(/<title[^>]*>([^<]+)<\/title>/i);
-        const title = titleMatch ? titleMatch[1].trim().replace(/&[^;]+;/g, ' ').replace(/\s+/g, ' ') : null;
-        
-        if (title) {
-          return `**Заголовок:** ${title}\n\n*Получено через резервный метод*`;
-        }
+    const blocked = blockedReason(error);
+    if (blocked) {
+      console.warn(`[Tool] Refused to fetch ${url}: ${blocked.message}`);
+      if (blocked.message.startsWith('Unsupported content type')) {
+        return `По ссылке ${url} не веб-страница, а файл. Для PDF, DOCX и текстовых файлов используй read_document.`;
       }
-    } catch (fallbackError) {
-      console.error(`[Tool] Fallback also failed for ${url}:`, fallbackError);
+      return `Не могу открыть ${url}: ${blocked.message}`;
     }
-    
+
+    console.error(`[Tool] Error extracting content from ${url}:`, error);
+
     // More specific error messages
     if (error instanceof Error) {
       if (error.message.includes('403')) {
@@ -0,0 +1,24 @@
+import { ToolDefinition } from "../registry";
+import { changeReputation } from "../db";
+
+export const changeUserReputationTool: ToolDefinition = {
+  name: "change_user_reputation",
+  description: "Change a user's reputation (loyalty/friendship with the bot).",
+  properties: {
+    user_id: { type: "string", description: "The ID of the user." },
+    amount: { type: "number", description: "Amount to change (e.g., +5, -10)." },
+    reason: { type: "string", description: "Reason for the change." },
+  },
+  required: ["user_id", "amount", "reason"],
+  aliases: { user_id: ["userId", "id"], amount: ["delta", "change"] },
+  validate: (args) => {
+    if (isNaN(parseInt(args.user_id))) return `user_id must be a numeric string. Got: ${args.user_id}`;
+    if (typeof args.amount !== "number") return `amount must be a number. Got: ${args.amount}`;
+    return null;
+  },
+  execute: async (args) => {
+    const targetId = parseInt(args.user_id);
+    await changeReputation(targetId, args.amount);
+    return `Reputation of user ${targetId} changed by ${args.amount}. Reason: ${args.reason}`;
+  },
+};
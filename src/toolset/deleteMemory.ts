@@ -0,0 +1,24 @@
+import { ToolDefinition } from "../registry";
+import { deleteFact, findChatUser } from "../db";
+
+export const deleteMemoryTool: ToolDefinition = {
+  name: "delete_memory",
+  description: "Delete a specific fact about the user (or another chat member via 'subject') from memory. Use this if the information is outdated, incorrect, or the user asks to forget it.",
+  properties: {
+    fact: { type: "string", description: "The exact fact to delete (as it was saved)." },
+    subject: { type: "string", description: "Who the fact is about if not the current user: their user ID, @username or first name. Omit for the current user." },
+  },
+  required: ["fact"],
+  aliases: { fact: ["memory", "text"], subject: ["user", "user_id", "about", "username"] },
+  execute: async (args, ctx) => {
+    let subjectId = ctx.userId;
+    if (args.subject !== undefined && String(args.subject).trim() && String(args.subject) !== String(ctx.userId)) {
+      const subject = await findChatUser(ctx.chatId, String(args.subject));
+      if (!subject) return `Error: Unknown user "${args.subject}". Use get_chat_info to find their ID or @username.`;
+      subjectId = Number(subject.id);
+    }
+
+    await deleteFact(subjectId, args.fact);
+    return `Memory deleted: ${args.fact}`;
+  },
+};
@@ -0,0 +1,14 @@
+import { ToolDefinition } from "../registry";
+import { extractUrlContent } from "../tools";
+
+export const extractUrlContentTool: ToolDefinition = {
+  name: "extract_url_content",
+  description: "Extract the main text and metadata (title, author, date) from a webpage URL. Useful for getting information from articles, news, or any web page. For PDF, DOCX or text files use read_document.",
+  properties: {
+    url: { type: "string", description: "The URL to extract content from" },
+    part: { type: "number", description: "Part of a long article to read (1-based). The result says when there is a next part." },
+  },
+  required: ["url"],
+  aliases: { url: ["link", "href"], part: ["page", "section"] },
+  execute: async (args) => await extractUrlContent(args.url, args.part),
+};
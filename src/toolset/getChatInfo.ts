@@ -0,0 +1,16 @@
+import { ToolDefinition } from "../registry";
+import { getAllUsersInChat, getRelationships } from "../db";
+
+export const getChatInfoTool: ToolDefinition = {
+  name: "get_chat_info",
+  description: "Get information about all users in the chat and their relationships.",
+  properties: {},
+  execute: async (_args, ctx) => {
+    const users = await getAllUsersInChat(ctx.chatId);
+    const rels = await getRelationships(ctx.chatId);
+    return JSON.stringify({
+      users: users.map(u => ({ id: u.id, name: u.first_name, username: u.username, reputation: u.reputation })),
+      relationships: rels.map(r => ({ user1: r.user_id_1, user2: r.user_id_2, affection: r.affection, status: r.status }))
+    });
+  },
+};
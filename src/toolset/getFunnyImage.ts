@@ -0,0 +1,29 @@
+import { ToolDefinition } from "../registry";
+import { getFunnyImage } from "../tools";
+
+export const getFunnyImageTool: ToolDefinition = {
+  name: "get_funny_image",
+  description: "Get a funny image, meme, gif, or picture. Use this when user asks for memes, pictures, images, gifs, or wants something visual/funny. Always use this for requests like 'скинь мем', 'покажи картинку', 'мемчик', etc.",
+  properties: {
+    keyword: { type: "string", description: "Keyword for the image (e.g., 'cat', 'fail', 'morning', 'funny', 'meme')." },
+  },
+  required: ["keyword"],
+  aliases: { keyword: ["query", "q"] },
+  execute: async (args, ctx) => {
+    const imageResult = await getFunnyImage(args.keyword);
+
+    // Check if result is JSON (special photo format)
+    try {
+      const photoData = JSON.parse(imageResult);
+      if (photoData.type === "photo" && photoData.url) {
+        // Store photo info for later use, but let AI generate caption
+        ctx.attachPhoto(photoData.url);
+        return `Found funny image for "${args.keyword}". Photo will be sent.`;
+      }
+      return imageResult;
+    } catch {
+      // Not JSON, treat as regular text
+      return imageResult;
+    }
+  },
+};
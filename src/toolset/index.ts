@@ -0,0 +1,24 @@
+import { registerTool } from "../registry";
+import { searchWebTool } from "./searchWeb";
+import { getFunnyImageTool } from "./getFunnyImage";
+import { extractUrlContentTool } from "./extractUrlContent";
+import { readDocumentTool } from "./readDocument";
+import { saveMemoryTool } from "./saveMemory";
+import { setReminderTool } from "./setReminder";
+import { deleteMemoryTool } from "./deleteMemory";
+import { changeUserReputationTool } from "./changeUserReputation";
+import { updateRelationshipTool } from "./updateRelationship";
+import { getChatInfoTool } from "./getChatInfo";
+
+// Registration order is the order tools are presented to the model.
+// To add a tool: create a module exporting a ToolDefinition and register it here.
+registerTool(searchWebTool);
+registerTool(getFunnyImageTool);
+registerTool(extractUrlContentTool);
+registerTool(readDocumentTool);
+registerTool(saveMemoryTool);
+registerTool(setReminderTool);
+registerTool(deleteMemoryTool);
+registerTool(changeUserReputationTool);
+registerTool(updateRelationshipTool);
+registerTool(getChatInfoTool);
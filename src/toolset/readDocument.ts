@@ -0,0 +1,17 @@
+import { ToolDefinition } from "../registry";
+import { readDocument } from "../documents";
+
+export const readDocumentTool: ToolDefinition = {
+  name: "read_document",
+  description: "Read a document sent to this chat or linked by a user: PDF, DOCX, plain text or Markdown. Long documents are split into parts: pass 'query' to get the parts relevant to a question, or 'part' to read a specific part.",
+  properties: {
+    document: { type: "string", description: "The file name as shown in the chat (e.g. report.pdf) or a direct link to the file. Omit for the latest file sent to the chat." },
+    query: { type: "string", description: "What you are looking for in the document, e.g. the user's question." },
+    part: { type: "number", description: "Number of the part to read (1-based), e.g. to continue reading." },
+  },
+  aliases: { document: ["file", "file_name", "filename", "name", "url", "link"], query: ["question", "q"], part: ["chunk"] },
+  execute: async (args, ctx) => {
+    console.log(`[AI][${ctx.chatId}] Reading document: ${args.document || "(latest)"}${args.query ? `, query: ${args.query}` : ""}${args.part ? `, part ${args.part}` : ""}`);
+    return await readDocument(ctx.chatId, args.document ? String(args.document) : undefined, args.query ? String(args.query) : undefined, args.part);
+  },
+};
@@ -0,0 +1,47 @@
+import { ToolDefinition } from "../registry";
+import { findChatUser, FACT_VISIBILITIES, FactVisibility } from "../db";
+import { saveFact } from "../facts";
+
+export const saveMemoryTool: ToolDefinition = {
+  name: "save_memory",
+  description: "Save a specific fact about the user, or about another chat member via 'subject' (e.g. Vasya says Petya got a new job: subject is Petya). IMPORTANT: Decide how long to remember this. For permanent things (name, personality) don't set ttl. For temporary things (plans for tonight, current mood, 'going to shop') set ttl_seconds (e.g., 3600 for 1h, 86400 for 1 day).",
+  properties: {
+    fact: { type: "string", description: "The clear, concise fact to remember." },
+    ttl_seconds: { type: "number", description: "How long to remember this in seconds. Omit for permanent storage." },
+    subject: { type: "string", description: "Who the fact is about if not the current user: their user ID, @username or first name (see get_chat_info). Omit for the current user." },
+    visibility: {
+      type: "string",
+      enum: FACT_VISIBILITIES,
+      description: "Where the fact may be mentioned: 'private' - only in one-on-one chats (health, money, secrets, anything told in confidence), 'chat' - only in this chat, 'global' - everywhere (name, hobbies, harmless things). Omit to use the default: private when told in a private chat, this chat otherwise.",
+    },
+  },
+  required: ["fact"],
+  aliases: { fact: ["memory", "text"], ttl_seconds: ["ttl", "duration"], subject: ["user", "user_id", "about", "username"], visibility: ["scope", "privacy"] },
+  validate: (args) => {
+    if (args.visibility !== undefined && !FACT_VISIBILITIES.includes(args.visibility)) return `visibility must be one of ${FACT_VISIBILITIES.join(", ")}. Got: ${args.visibility}`;
+    return null;
+  },
+  execute: async (args, ctx) => {
+    const ttl = args.ttl_seconds;
+    let subjectId = ctx.userId;
+    let about = "";
+
+    if (args.subject !== undefined && String(args.subject).trim() && String(args.subject) !== String(ctx.userId)) {
+      const subject = await findChatUser(ctx.chatId, String(args.subject));
+      if (!subject) return `Error: Unknown user "${args.subject}". Use get_chat_info to find their ID or @username.`;
+      subjectId = Number(subject.id);
+      about = ` about ${subject.first_name || subject.username || subject.id}`;
+    }
+    if (!subjectId) return `Error: There is no current user here, set 'subject'.`;
+
+    console.log(`[AI][${ctx.chatId}] Saving memory for userId ${subjectId} (reported by ${ctx.userId}): ${args.fact}`);
+    const result = await saveFact(subjectId, args.fact, ttl, {
+      reporterId: ctx.userId || undefined,
+      chatId: ctx.chatId,
+      visibility: args.visibility as FactVisibility | undefined,
+    });
+    if (result.action === "duplicate") return `Already known${about}, not saved again: ${args.fact}`;
+    if (result.action !== "added") return `Memory saved${about}: ${args.fact} (TTL: ${ttl || 'inf'}); ${result.action} older facts: ${result.replaced.join("; ")}`;
+    return `Memory saved${about}: ${args.fact} (TTL: ${ttl || 'inf'})`;
+  },
+};
@@ -0,0 +1,13 @@
+import { ToolDefinition } from "../registry";
+import { searchWeb } from "../tools";
+
+export const searchWebTool: ToolDefinition = {
+  name: "search_web",
+  description: "Search the internet for current events, facts, or specific information.",
+  properties: {
+    query: { type: "string", description: "The search query" },
+  },
+  required: ["query"],
+  aliases: { query: ["keyword", "q"] },
+  execute: async (args) => await searchWeb(args.query),
+};
@@ -0,0 +1,44 @@
+import { ToolDefinition } from "../registry";
+import { isValidRule } from "../recurrence";
+import { parseEndDate } from "../time";
+import { resolveTimezone } from "../db";
+
+export const setReminderTool: ToolDefinition = {
+  name: "set_reminder",
+  description: "Set a reminder for the user. Use VERY sparingly - only for truly important things they specifically asked to remember. IMPORTANT: 'text' must be a natural, casual message you'll send later (e.g., 'Йо, как дела с тем проектом?'), NOT a description. For things that repeat (daily stand-ups, weekly game nights) set 'repeat'.",
+  properties: {
+    seconds: { type: "number", description: "Delay in seconds until the first delivery (minimum 3600 = 1 hour)." },
+    text: { type: "string", description: "The casual message to send later (1-2 sentences max)." },
+    repeat: { type: "string", description: "Optional. 'daily', 'weekly' or a 5-field cron expression (minute hour day month weekday, e.g. '0 19 * * 5' for Fridays at 19:00). Omit for a one-time reminder." },
+    repeat_until: { type: "string", description: "Optional. ISO date (YYYY-MM-DD) after which a repeating reminder stops." },
+    repeat_count: { type: "number", description: "Optional. How many times a repeating reminder is sent in total." },
+    urgent: { type: "boolean", description: "Optional. Deliver even during the chat's quiet hours or mute. Only for things that can't wait (e.g. the user must wake up at 5 AM)." },
+  },
+  required: ["seconds", "text"],
+  aliases: { seconds: ["time", "delay"], text: ["message", "reminder"], repeat: ["recurrence", "schedule", "cron"], repeat_until: ["until", "end_date"], repeat_count: ["count", "times"] },
+  validate: (args) => {
+    if (typeof args.seconds !== "number") return `seconds must be a number. Got: ${args.seconds}`;
+    // Минимум 1 час для напоминаний
+    if (args.seconds < 3600) return `Minimum reminder time is 1 hour (3600 seconds). Got: ${args.seconds}`;
+    if (args.repeat !== undefined && !isValidRule(String(args.repeat))) return `repeat must be 'daily', 'weekly' or a 5-field cron expression. Got: ${args.repeat}`;
+    if (args.repeat_until !== undefined && !parseEndDate(String(args.repeat_until))) return `repeat_until must be a date (YYYY-MM-DD). Got: ${args.repeat_until}`;
+    if (args.repeat_count !== undefined && (typeof args.repeat_count !== "number" || args.repeat_count < 1)) return `repeat_count must be a positive number. Got: ${args.repeat_count}`;
+    return null;
+  },
+  execute: async (args, ctx) => {
+    if (!ctx.onReminder) {
+      return `Error: Reminders are not available here.`;
+    }
+    const timeZone = await resolveTimezone(ctx.chatId, ctx.userId);
+    const recurrence = args.repeat ? {
+      rule: String(args.repeat),
+      endsAt: args.repeat_until ? parseEndDate(String(args.repeat_until), timeZone)! : undefined,
+      count: args.repeat_count ? Math.floor(args.repeat_count) : undefined,
+    } : undefined;
+
+    if (!(await ctx.onReminder(args.seconds, args.text, recurrence, args.urgent === true || args.urgent === "true"))) {
+      return `Error: The user already has too many pending reminders in this chat.`;
+    }
+    return `Reminder set for ${Math.round(args.seconds / 3600)} hours${recurrence ? `, repeating ${recurrence.rule}` : ""}.`;
+  },
+};
@@ -0,0 +1,28 @@
+import { ToolDefinition } from "../registry";
+import { updateRelationship } from "../db";
+
+export const updateRelationshipTool: ToolDefinition = {
+  name: "update_relationship",
+  description: "Update the relationship/affection between two users in the chat. Bot can observe their interaction and update it.",
+  properties: {
+    user_id_1: { type: "string", description: "First user's ID." },
+    user_id_2: { type: "string", description: "Second user's ID." },
+    affection_delta: { type: "number", description: "Change in affection (-20 to 20)." },
+    status: { type: "string", description: "New status description (optional, e.g., 'crush', 'rivals')." },
+  },
+  required: ["user_id_1", "user_id_2", "affection_delta"],
+  aliases: { affection_delta: ["delta", "affection"] },
+  validate: (args) => {
+    if (isNaN(parseInt(args.user_id_1)) || isNaN(parseInt(args.user_id_2))) {
+      return `user_id_1 and user_id_2 must be numeric strings.`;
+    }
+    if (typeof args.affection_delta !== "number") return `affection_delta must be a number. Got: ${args.affection_delta}`;
+    return null;
+  },
+  execute: async (args, ctx) => {
+    const id1 = parseInt(args.user_id_1);
+    const id2 = parseInt(args.user_id_2);
+    await updateRelationship(ctx.chatId, id1, id2, args.affection_delta, args.status);
+    return `Relationship between ${id1} and ${id2} updated (delta: ${args.affection_delta}).`;
+  },
+};
@@ -0,0 +1,137 @@
+import { Bot, Context, InlineKeyboard, InputFile } from "grammy";
+import { exportUserData, deleteUserData, findChatUser } from "./db";
+import { isBotOwner } from "./permissions";
+
+// --- Personal Data ---
+// /export_my_data sends the caller a JSON archive of everything stored about them (always in
+// private), /delete_my_data erases it after a confirmation button. Bot owners can do the same
+// for someone else with /export_user_data and /delete_user_data <id|@username>.
+// Confirmation buttons: "userdata:delete:<target>:<requester>:<issued at, unix seconds>".
+
+const CALLBACK_PREFIX = "userdata";
+const CONFIRM_TTL_SECONDS = 60 * 10;
+
+const TABLE_LABELS: Record<string, string> = {
+    facts: "фактов",
+    facts_anonymized: "фактов о других без указания источника",
+    fact_revisions: "записей истории фактов",
+    messages: "сообщений",
+    relationships: "отношений",
+    reminders: "напоминаний",
+    documents: "файлов",
+    users: "профилей",
+};
+
+/**
+ * The user an owner command is about: a numeric id (even one the bot has no profile for) or @username
+ */
+async function resolveTarget(ctx: Context, ref: string): Promise<number | null> {
+    if (/^\d+$/.test(ref)) return Number(ref);
+    const user = await findChatUser(ctx.chat!.id, ref);
+    return user ? Number(user.id) : null;
+}
+
+async function sendExport(ctx: Context, targetId: number): Promise<void> {
+    const requesterId = ctx.from!.id;
+    const data = await exportUserData(targetId);
+    const file = new InputFile(Buffer.from(JSON.stringify(data, null, 2)), `user_data_${targetId}.json`);
+
+    try {
+        await ctx.api.sendDocument(requesterId, file, { caption: `📦 Данные пользователя ${targetId}` });
+    } catch (e) {
+        // 403 until the user has started a private chat with the bot
+        console.warn(`[UserData][${ctx.chat?.id}] Failed to send export of ${targetId} to ${requesterId}:`, (e as Error).message);
+        await ctx.reply("Не могу написать тебе в личку. Напиши мне там /start и повтори команду.");
+        return;
+    }
+
+    console.log(`[UserData][${ctx.chat?.id}] Exported data of ${targetId} for ${requesterId}`);
+    if (ctx.chat?.type !== "private") await ctx.reply("📦 Отправил архив в личку.");
+}
+
+async function askDeleteConfirmation(ctx: Context, targetId: number): Promise<void> {
+    const issuedAt = Math.floor(Date.now() / 1000);
+    const keyboard = new InlineKeyboard()
+        .text("🗑 Да, удалить всё", `${CALLBACK_PREFIX}:delete:${targetId}:${ctx.from!.id}:${issuedAt}`)
+        .text("Отмена", `${CALLBACK_PREFIX}:cancel:${ctx.from!.id}`);
+
+    const whose = targetId === ctx.from!.id ? "о тебе" : `о пользователе ${targetId}`;
+    await ctx.reply(
+        `⚠️ Удалить всё, что я храню ${whose}? Профиль, репутация, факты, сообщения и файлы во всех чатах, ` +
+        `отношения, напоминания и личный чат со мной. Это нельзя отменить.`,
+        { reply_markup: keyboard }
+    );
+}
+
+export function registerUserDataCommands(bot: Bot) {
+    bot.command("export_my_data", async (ctx) => {
+        if (!ctx.from) return;
+        await sendExport(ctx, ctx.from.id);
+    });
+
+    bot.command("delete_my_data", async (ctx) => {
+        if (!ctx.from) return;
+        await askDeleteConfirmation(ctx, ctx.from.id);
+    });
+
+    bot.command(["export_user_data", "delete_user_data"], async (ctx) => {
+        if (!ctx.from) return;
+        if (!isBotOwner(ctx.from.id)) {
+            console.warn(`[Perm][${ctx.chat.id}] Denied ${ctx.message?.text?.split(" ")[0]} for ${ctx.from.first_name} (${ctx.from.id})`);
+            return ctx.reply("⛔ Это могут делать только владельцы бота.");
+        }
+
+        const ref = ctx.match?.toString().trim();
+        const command = ctx.message?.text?.startsWith("/export") ? "export_user_data" : "delete_user_data";
+        if (!ref) return ctx.reply(`Использование: /${command} <id|@username>`);
+
+        const targetId = await resolveTarget(ctx, ref);
+        if (!targetId) return ctx.reply(`Не знаю пользователя ${ref}. Укажи его id.`);
+
+        if (command === "export_user_data") await sendExport(ctx, targetId);
+        else await askDeleteConfirmation(ctx, targetId);
+    });
+
+    bot.callbackQuery(new RegExp(`^${CALLBACK_PREFIX}:cancel:(\\d+)$`), async (ctx) => {
+        if (ctx.from.id !== Number(ctx.match[1])) {
+            return ctx.answerCallbackQuery({ text: "Это не твой запрос.", show_alert: true });
+        }
+        await ctx.editMessageText("Удаление отменено.").catch(() => {});
+        await ctx.answerCallbackQuery();
+    });
+
+    bot.callbackQuery(new RegExp(`^${CALLBACK_PREFIX}:delete:(\\d+):(\\d+):(\\d+)$`), async (ctx) => {
+        const targetId = Number(ctx.match[1]);
+        const requesterId = Number(ctx.match[2]);
+        const issuedAt = Number(ctx.match[3]);
+
+        if (ctx.from.id !== requesterId) {
+            return ctx.answerCallbackQuery({ text: "Это не твой запрос.", show_alert: true });
+        }
+        // Owner rights are checked again: they may have been revoked since the command
+        if (targetId !== requesterId && !isBotOwner(requesterId)) {
+            return ctx.answerCallbackQuery({ text: "⛔ Это могут делать только владельцы бота.", show_alert: true });
+        }
+        if (Date.now() / 1000 - issuedAt > CONFIRM_TTL_SECONDS) {
+            await ctx.editMessageText("Запрос устарел, повтори команду.").catch(() => {});
+            return ctx.answerCallbackQuery();
+        }
+
+        try {
+            const counts = await deleteUserData(targetId);
+            const summary = Object.entries(TABLE_LABELS)
+                .filter(([table]) => counts[table] > 0)
+                .map(([table, label]) => `${counts[table]} ${label}`)
+                .join(", ");
+            console.log(`[UserData][${ctx.chat?.id}] Erased data of ${targetId} on request of ${requesterId}`);
+            await ctx.editMessageText(
+                `🗑 Готово${summary ? `: удалено ${summary}` : ", удалять было нечего"}.\n` +
+                "Если напишешь мне снова, я начну запоминать с чистого листа."
+            ).catch(() => {});
+        } catch (e) {
+            console.error(`[UserData][${ctx.chat?.id}] Failed to erase data of ${targetId}:`, e);
+            await ctx.editMessageText("Не получилось удалить данные, попробуй позже.").catch(() => {});
+        }
+        await ctx.answerCallbackQuery();
+    });
+}
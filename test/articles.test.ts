@@ -0,0 +1,37 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import * as iconv from "iconv-lite";
+import { decodeHtml, extractArticle } from "../src/articles";
+
+// --- Article Extraction Tests ---
+// Each fixtures/articles/<name>.html is a saved page; <name>.expected.json is what
+// extractArticle returns for it when served from https://example.com/news/<name>.html
+// without a Content-Type charset.
+
+const FIXTURES = path.join(__dirname, "fixtures", "articles");
+
+for (const file of fs.readdirSync(FIXTURES).filter(f => f.endsWith(".html"))) {
+  test(`extracts ${file}`, () => {
+    const html = decodeHtml(fs.readFileSync(path.join(FIXTURES, file)), null);
+    const expected = JSON.parse(fs.readFileSync(path.join(FIXTURES, file.replace(/\.html$/, ".expected.json")), "utf-8"));
+    const article = extractArticle(html, `https://example.com/news/${file}`);
+    // Round trip through JSON to drop the metadata fields left undefined
+    assert.deepEqual(JSON.parse(JSON.stringify(article)), expected);
+  });
+}
+
+test("the Content-Type charset wins over the page's own", () => {
+  const body = iconv.encode('<meta charset="utf-8"><p>Привет</p>', "koi8-r");
+  assert.equal(decodeHtml(body, "text/html; charset=KOI8-R"), '<meta charset="utf-8"><p>Привет</p>');
+});
+
+test("a BOM is used when the header has no charset", () => {
+  const body = Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), Buffer.from("<p>Привет</p>")]);
+  assert.equal(decodeHtml(body, "text/html"), "<p>Привет</p>");
+});
+
+test("unknown charsets fall back to UTF-8", () => {
+  assert.equal(decodeHtml(Buffer.from("<p>Привет</p>"), "text/html; charset=x-unknown"), "<p>Привет</p>");
+});
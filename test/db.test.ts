@@ -0,0 +1,241 @@
+import { test, before, after } from "node:test";
+import * as assert from "node:assert/strict";
+import * as fs from "fs";
+import * as http from "http";
+import * as os from "os";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import { In } from "typeorm";
+
+// --- Database Tests ---
+// Runs the migrations on an empty database and checks the schema matches the entities, then
+// the queries with hand-written SQL. SQLite by default (a temporary file); `npm run
+// test:postgres` runs the same on Postgres, configured with the usual DB_* variables, e.g.
+//   docker run --rm -e POSTGRES_PASSWORD=pw -e POSTGRES_DB=norel_bot_test -p 5432:5432 postgres
+//   DB_PASSWORD=pw npm run test:postgres
+// The database is wiped first, so its name must contain "test".
+
+const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "norel-test-"));
+process.env.DB_PATH = path.join(tmpDir, "test.sqlite");
+process.env.DB_NAME ??= "norel_bot_test";
+delete process.env.DATABASE_URL; // It would take precedence over DB_NAME and could point at real data
+process.env.DB_SYNCHRONIZE = "false";
+process.env.DB_MIGRATIONS_RUN = "true";
+
+// db.ts reads its configuration on load, so it's required after the environment is set
+const db: typeof import("../src/db") = require("../src/db");
+
+const GROUP_A = -1001234567890;
+const GROUP_B = -1009876543210;
+const ALICE = 5000000001; // Above 2^32: must survive the bigint round trip
+const BOB = 5000000002;
+const CAROL = 5000000003;
+const DAVE = 5000000004;
+const ERIN = 5000000005;
+
+/**
+ * A chat completions endpoint that always answers `content`, as the LLM provider
+ */
+async function stubLlm(content: string): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    req.resume();
+    req.on("end", () => {
+      res.writeHead(200, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({
+        id: "chatcmpl-1", object: "chat.completion", created: 0, model: "m",
+        choices: [{ index: 0, message: { role: "assistant", content }, finish_reason: "stop" }],
+      }));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  process.env.LLM_PROVIDERS = JSON.stringify([{ name: "stub", baseURL: `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1` }]);
+  return server;
+}
+
+before(async () => {
+  if (db.AppDataSource.options.type === "postgres" && !/test/.test(String(db.AppDataSource.options.database))) {
+    throw new Error(`Refusing to wipe "${db.AppDataSource.options.database}": set DB_NAME to a test database`);
+  }
+  await db.AppDataSource.initialize();
+  await db.AppDataSource.dropDatabase();
+  await db.AppDataSource.destroy();
+  await db.initDB();
+
+  await db.upsertUser(ALICE, "alice", "Alice");
+  await db.upsertUser(BOB, "bob", "Bob");
+});
+
+after(async () => {
+  await db.AppDataSource.destroy();
+  fs.rmSync(tmpDir, { recursive: true, force: true });
+});
+
+test("migrations produce the schema the entities describe", async () => {
+  const pending = await db.AppDataSource.driver.createSchemaBuilder().log();
+  assert.deepEqual(pending.upQueries.map(q => q.query), []);
+});
+
+test("bigint ids come back as strings", async () => {
+  assert.equal((await db.getUser(ALICE))?.id, String(ALICE));
+
+  await db.addMessage(GROUP_A, "user", "привет", "Alice", ALICE);
+  const [message] = await db.getHistory(GROUP_A, 1);
+  assert.equal(message.userId, String(ALICE));
+});
+
+test("a scheduled job stays leased until its handler succeeds", async () => {
+  await db.upsertScheduledJob("test", GROUP_A, new Date(Date.now() - 1000), { n: 1 });
+  const [job] = (await db.getDueJobs()).filter(j => j.type === "test");
+  assert.equal(await db.claimScheduledJob(job.id), true);
+  assert.equal(await db.claimScheduledJob(job.id), false);
+
+  // While it runs it's neither due nor pending, and its payload can't change
+  assert.equal((await db.getDueJobs()).some(j => j.id === job.id), false);
+  assert.equal(await db.getScheduledJob("test", GROUP_A), null);
+  assert.equal(await db.updateScheduledJobPayload(job.id, { n: 2 }), false);
+
+  // A failed run goes back in the queue, until it has failed too often
+  assert.equal(await db.releaseScheduledJob(job.id, new Date(Date.now() - 1000), 2), "retry");
+  assert.equal((await db.getScheduledJob("test", GROUP_A))?.attempts, 1);
+  assert.equal(await db.claimScheduledJob(job.id), true);
+  assert.equal(await db.releaseScheduledJob(job.id, new Date(), 2), "dropped");
+  assert.equal(await db.getScheduledJob("test", GROUP_A), null);
+});
+
+test("a job rescheduled while it runs survives its completion", async () => {
+  await db.upsertScheduledJob("test", GROUP_A, new Date(Date.now() - 1000));
+  const job = (await db.getScheduledJob("test", GROUP_A))!;
+  await db.claimScheduledJob(job.id);
+
+  await db.upsertScheduledJob("test", GROUP_A, new Date(Date.now() + 60000), { n: 3 });
+  await db.completeScheduledJob(job.id);
+  assert.equal((await db.getScheduledJob("test", GROUP_A))?.payload, JSON.stringify({ n: 3 }));
+  assert.equal(await db.updateScheduledJobPayload(job.id, { n: 4 }), true);
+  await db.deleteScheduledJob("test", GROUP_A);
+});
+
+test("jobs leased by a previous process are released on startup", async () => {
+  await db.upsertScheduledJob("test", GROUP_B, new Date(Date.now() - 1000));
+  const job = (await db.getScheduledJob("test", GROUP_B))!;
+  await db.claimScheduledJob(job.id);
+
+  assert.equal(await db.releaseStaleScheduledJobs(), 1);
+  assert.ok((await db.getDueJobs()).some(j => j.id === job.id));
+  await db.deleteScheduledJob("test", GROUP_B);
+});
+
+test("recall candidates skip the messages already in the prompt", async () => {
+  const chatId = -1005555555555;
+  for (const text of ["первое", "второе", "третье"]) await db.addMessage(chatId, "user", text, "Alice", ALICE);
+  const rows = await db.AppDataSource.getRepository(db.History).findBy({ chat_id: String(chatId) });
+  await db.saveEmbeddings(rows.map(h => ({ source_type: "message", source_id: h.id, model: "m", vector: "" })));
+
+  assert.deepEqual((await db.getMessageEmbeddings(chatId, "m", 0, 10)).map(m => m.content), ["третье", "второе", "первое"]);
+  assert.deepEqual((await db.getMessageEmbeddings(chatId, "m", 2, 10)).map(m => m.content), ["первое"]);
+  assert.deepEqual((await db.getMessageEmbeddings(chatId, "m", 5, 10)).map(m => m.content), []);
+});
+
+test("fact compaction picks users with facts added since the last run", async () => {
+  await db.addFact(ALICE, "любит чай", undefined, { chatId: GROUP_A, visibility: "global" });
+  assert.ok((await db.getUsersForFactCompaction(1, 10)).includes(ALICE));
+
+  await db.markFactsCompacted(ALICE);
+  assert.ok(!(await db.getUsersForFactCompaction(1, 10)).includes(ALICE));
+
+  await db.AppDataSource.getRepository(db.User).update({ id: String(ALICE) }, { facts_compacted_at: new Date(Date.now() - 60 * 60 * 1000) });
+  assert.ok((await db.getUsersForFactCompaction(1, 10)).includes(ALICE));
+});
+
+test("compaction keeps the reporter only when all merged facts share it", async () => {
+  await db.upsertUser(CAROL, "carol", "Carol");
+  const coffee = await db.addFact(CAROL, "любит кофе", undefined, { reporterId: ALICE });
+  const mornings = await db.addFact(CAROL, "пьет кофе по утрам", undefined, { reporterId: ALICE });
+  const moscow = await db.addFact(CAROL, "живет в Москве", undefined, { reporterId: ALICE });
+  const piter = await db.addFact(CAROL, "переехала в Питер", undefined, { reporterId: BOB });
+
+  const server = await stubLlm(JSON.stringify({ groups: [
+    { action: "merge", ids: [coffee, mornings], text: "любит кофе, пьет его по утрам" },
+    { action: "supersede", ids: [moscow, piter], text: "переехала в Питер" },
+  ] }));
+  try {
+    const { compactUserFacts } = require("../src/facts") as typeof import("../src/facts");
+    assert.equal(await compactUserFacts(CAROL), 2);
+  } finally {
+    server.close();
+  }
+
+  const facts = await db.listFacts(CAROL);
+  assert.deepEqual(facts.map(f => [f.fact, f.reporter_id ?? null]).sort(), [
+    ["любит кофе, пьет его по утрам", String(ALICE)],
+    ["переехала в Питер", null],
+  ]);
+});
+
+test("facts are only shown where their visibility allows", async () => {
+  await db.upsertUser(DAVE, "dave", "Dave");
+  await db.addFact(DAVE, "любит чай", undefined, { chatId: GROUP_A, visibility: "global" });
+  await db.addFact(DAVE, "играет в группе A", undefined, { chatId: GROUP_A, visibility: "chat" });
+  await db.addFact(DAVE, "боится пауков", undefined, { chatId: DAVE, reporterId: DAVE, visibility: "private" });
+  await db.addFact(DAVE, "копит на машину", undefined, { chatId: GROUP_A, reporterId: DAVE, visibility: "private" });
+
+  assert.deepEqual((await db.getFacts(DAVE, GROUP_A)).sort(), ["играет в группе A", "любит чай"]);
+  assert.deepEqual(await db.getFacts(DAVE, GROUP_B), ["любит чай"]);
+  // Their own private facts follow them to their DM, wherever they told them
+  assert.deepEqual((await db.getFacts(DAVE, DAVE)).sort(), ["боится пауков", "копит на машину", "любит чай"]);
+});
+
+test("what someone told about a user in their own DM stays there", async () => {
+  await db.addFact(DAVE, "готовит сюрприз на день рождения", undefined, { chatId: BOB, reporterId: BOB, visibility: "private" });
+
+  const surprise = (facts: string[]) => facts.some(f => f.startsWith("готовит сюрприз"));
+  assert.ok(surprise(await db.getFacts(DAVE, BOB)));
+  assert.ok(!surprise(await db.getFacts(DAVE, DAVE)));
+  assert.ok(!surprise(await db.getFacts(DAVE, GROUP_A)));
+});
+
+test("deleting a user's data removes their rows and keeps everyone else's", async () => {
+  const group = -1007777777777;
+  await db.upsertUser(ERIN, "erin", "Erin");
+  await db.addFact(ERIN, "любит горы", undefined, { chatId: group, visibility: "chat" });
+  await db.addMessage(ERIN, "user", "личное", "Erin", ERIN);
+  await db.addMessage(group, "user", "я Эрин", "Erin", ERIN);
+  await db.addMessage(group, "user", "я Боб", "Bob", BOB);
+  await db.addReminder(group, ERIN, "полить цветы", new Date(Date.now() + 60000));
+  await db.addChatDocument(group, ERIN, { file_id: "f", file_unique_id: "u", file_name: "a.pdf" });
+  await db.addFact(BOB, "сосед Эрин", undefined, { chatId: group, reporterId: ERIN, visibility: "chat" });
+  await db.claimChatLink(ERIN, "b".repeat(64));
+
+  const [fact] = await db.listFacts(ERIN);
+  const history = await db.AppDataSource.getRepository(db.History).findBy({ chat_id: In([String(ERIN), String(group)]) });
+  await db.saveEmbeddings([
+    { source_type: "fact", source_id: fact.id, model: "m", vector: "" },
+    ...history.map(h => ({ source_type: "message", source_id: h.id, model: "m", vector: "" })),
+  ]);
+
+  const exported = await db.exportUserData(ERIN);
+  assert.equal((exported.messages as unknown[]).length, 2);
+  assert.equal((exported.facts_reported_about_others as unknown[]).length, 1);
+
+  const counts = await db.deleteUserData(ERIN);
+  assert.equal(counts.facts, 1);
+  assert.equal(counts.facts_anonymized, 1);
+  assert.equal(counts.messages, 2);
+  assert.equal(counts.reminders, 1);
+  assert.equal(counts.documents, 1);
+  assert.equal(counts.links, 1);
+
+  assert.equal(await db.getUser(ERIN), null);
+  assert.deepEqual((await db.getHistory(group, 10)).map(h => h.content), ["я Боб"]);
+  assert.deepEqual(await db.getFacts(BOB, group), ["сосед Эрин"]);
+  // Only the vector of Bob's message is left
+  const embeddings = db.AppDataSource.getRepository(db.MemoryEmbedding);
+  assert.equal(await embeddings.countBy({ source_type: "fact", source_id: fact.id }), 0);
+  const vectors = await embeddings.findBy({ source_type: "message", source_id: In(history.map(h => h.id)) });
+  assert.deepEqual(vectors.map(v => v.source_id), [history.find(h => h.content === "я Боб")!.id]);
+});
+
+test("a link is claimed once per chat", async () => {
+  assert.equal(await db.claimChatLink(GROUP_A, "a".repeat(64)), true);
+  assert.equal(await db.claimChatLink(GROUP_A, "a".repeat(64)), false);
+  assert.equal(await db.claimChatLink(GROUP_B, "a".repeat(64)), true);
+});
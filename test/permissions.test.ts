@@ -0,0 +1,48 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import type { Context } from "grammy";
+import { isPrivileged } from "../src/permissions";
+
+// --- Permission Tests ---
+// Contexts are stubbed with just the fields isPrivileged reads.
+
+const GROUP = -1001234567890;
+const ANONYMOUS_ADMIN = 5000000001;
+const MEMBER = 5000000002;
+const GROUP_ANONYMOUS_BOT = 1087968824; // "Group" as the sender of anonymous admin messages
+
+function stubContext(update: Partial<Context>, chatId: number = GROUP): Context {
+  return {
+    chat: { id: chatId, type: "supergroup" },
+    api: {
+      getChatAdministrators: async () => [
+        { status: "administrator", is_anonymous: true, user: { id: ANONYMOUS_ADMIN } },
+      ],
+    },
+    ...update,
+  } as unknown as Context;
+}
+
+test("a message an anonymous admin sent on behalf of the group is privileged", async () => {
+  const ctx = stubContext({
+    from: { id: GROUP_ANONYMOUS_BOT } as Context["from"],
+    message: { sender_chat: { id: GROUP, type: "supergroup" } } as Context["message"],
+  });
+  assert.equal(await isPrivileged(ctx), true);
+});
+
+test("an anonymous admin pressing a button is privileged", async () => {
+  const ctx = stubContext({
+    from: { id: ANONYMOUS_ADMIN } as Context["from"],
+    callbackQuery: { id: "1", data: "settings:temp:up" } as Context["callbackQuery"],
+  }, GROUP - 1);
+  assert.equal(await isPrivileged(ctx), true);
+});
+
+test("a member pressing a button is not", async () => {
+  const ctx = stubContext({
+    from: { id: MEMBER } as Context["from"],
+    callbackQuery: { id: "2", data: "settings:temp:up" } as Context["callbackQuery"],
+  }, GROUP - 2);
+  assert.equal(await isPrivileged(ctx), false);
+});
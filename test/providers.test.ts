@@ -0,0 +1,103 @@
+import { test, before, after } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "http";
+import type { AddressInfo } from "net";
+
+// --- Provider Failover Tests ---
+// Two OpenAI-compatible providers served by one local stub: /primary/v1 and /backup/v1.
+// Each test sets the status the primary answers with and checks which provider got the request.
+
+const COOLDOWN_MS = 1000;
+
+let primaryStatus = 200;
+const hits = { primary: 0, backup: 0 };
+
+const server = http.createServer((req, res) => {
+  const name = req.url!.startsWith("/primary/") ? "primary" : "backup";
+  hits[name]++;
+  req.resume();
+  req.on("end", () => {
+    const status = name === "primary" ? primaryStatus : 200;
+    res.writeHead(status, { "Content-Type": "application/json" });
+    if (status !== 200) return res.end(JSON.stringify({ error: { message: `${name} is down` } }));
+    if (req.url!.endsWith("/audio/transcriptions")) return res.end(JSON.stringify({ text: `${name} heard` }));
+    res.end(JSON.stringify({
+      id: "chatcmpl-1",
+      object: "chat.completion",
+      created: 0,
+      model: "m",
+      choices: [{ index: 0, message: { role: "assistant", content: `${name} says hi` }, finish_reason: "stop" }],
+    }));
+  });
+});
+
+let providers: typeof import("../src/providers");
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  process.env.LLM_PROVIDERS = JSON.stringify([
+    { name: "backup", baseURL: `${base}/backup/v1`, priority: 1 },
+    { name: "primary", baseURL: `${base}/primary/v1`, priority: 0 },
+  ]);
+  process.env.LLM_FAILURE_COOLDOWN_MS = String(COOLDOWN_MS);
+  delete process.env.STT_BASE_URL;
+  // providers.ts reads the cooldown on load
+  providers = require("../src/providers");
+});
+
+after(() => {
+  server.close();
+});
+
+function resetHits() {
+  hits.primary = 0;
+  hits.backup = 0;
+}
+
+async function ask(): Promise<string | null> {
+  const response = await providers.createChatCompletion("chat", { messages: [{ role: "user", content: "hi" }] });
+  return response.choices[0].message.content;
+}
+
+test("the primary answers while it's healthy", async () => {
+  resetHits();
+  assert.equal(await ask(), "primary says hi");
+  assert.deepEqual(hits, { primary: 1, backup: 0 });
+});
+
+test("a failing primary falls over to the backup", async () => {
+  resetHits();
+  primaryStatus = 500;
+  assert.equal(await ask(), "backup says hi");
+  assert.deepEqual(hits, { primary: 1, backup: 1 });
+});
+
+test("the failed primary is skipped until its cooldown ends", async () => {
+  resetHits();
+  primaryStatus = 200;
+  assert.equal(await ask(), "backup says hi");
+  assert.deepEqual(hits, { primary: 0, backup: 1 });
+
+  await new Promise(resolve => setTimeout(resolve, COOLDOWN_MS + 100));
+  assert.equal(await ask(), "primary says hi");
+  assert.deepEqual(hits, { primary: 1, backup: 1 });
+});
+
+test("a bad request is not retried on another provider", async () => {
+  resetHits();
+  primaryStatus = 400;
+  await assert.rejects(ask(), { status: 400 });
+  assert.deepEqual(hits, { primary: 1, backup: 0 });
+});
+
+test("a failed transcription marks the provider unhealthy too", async () => {
+  resetHits();
+  primaryStatus = 503;
+  assert.equal(await providers.createTranscription(Buffer.from("OggS"), "voice.ogg"), "backup heard");
+  assert.deepEqual(hits, { primary: 1, backup: 1 });
+
+  primaryStatus = 200;
+  assert.equal(await ask(), "backup says hi");
+  assert.deepEqual(hits, { primary: 1, backup: 2 });
+});
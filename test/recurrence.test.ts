@@ -0,0 +1,63 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { nextOccurrence, advanceRecurrence, isValidRule } from "../src/recurrence";
+
+// --- Recurrence Tests ---
+// 14 October 2026 is a Wednesday. Europe/Berlin leaves summer time on 25 October 2026
+// and enters it on 29 March 2026.
+
+const at = (iso: string) => new Date(iso);
+
+test("daily and weekly keep the time of day of the previous occurrence", () => {
+  const anchor = at("2026-10-14T15:00:00Z");
+  assert.deepEqual(nextOccurrence("daily", anchor, anchor, "Europe/Moscow"), at("2026-10-15T15:00:00Z"));
+  assert.deepEqual(nextOccurrence("weekly", anchor, anchor, "Europe/Moscow"), at("2026-10-21T15:00:00Z"));
+  // Occurrences missed while the bot was down are skipped
+  assert.deepEqual(nextOccurrence("daily", anchor, at("2026-10-17T16:00:00Z"), "Europe/Moscow"), at("2026-10-18T15:00:00Z"));
+});
+
+test("daily stays at the same wall-clock time across DST changes", () => {
+  // 9:00 CEST is 07:00 UTC, 9:00 CET is 08:00 UTC
+  const anchor = at("2026-10-24T07:00:00Z");
+  assert.deepEqual(nextOccurrence("daily", anchor, anchor, "Europe/Berlin"), at("2026-10-25T08:00:00Z"));
+  assert.deepEqual(nextOccurrence("0 9 * * *", at("2026-03-28T08:00:00Z"), at("2026-03-28T08:00:00Z"), "Europe/Berlin"), at("2026-03-29T07:00:00Z"));
+});
+
+test("cron steps and ranges", () => {
+  assert.deepEqual(nextOccurrence("*/15 * * * *", at("2026-10-14T10:07:00Z"), at("2026-10-14T10:07:00Z"), "UTC"), at("2026-10-14T10:15:00Z"));
+  assert.deepEqual(nextOccurrence("0 9-17/4 * * *", at("2026-10-14T13:00:00Z"), at("2026-10-14T13:00:00Z"), "UTC"), at("2026-10-14T17:00:00Z"));
+  assert.deepEqual(nextOccurrence("0 19 * * 5", at("2026-10-14T10:00:00Z"), at("2026-10-14T10:00:00Z"), "UTC"), at("2026-10-16T19:00:00Z"));
+  assert.deepEqual(nextOccurrence("0 9 * * 7", at("2026-10-14T10:00:00Z"), at("2026-10-14T10:00:00Z"), "UTC"), at("2026-10-18T09:00:00Z"));
+});
+
+test("a restricted day of month and weekday match either", () => {
+  // The 15th (a Thursday) or any Friday
+  assert.deepEqual(nextOccurrence("0 9 15 * 5", at("2026-10-14T10:00:00Z"), at("2026-10-14T10:00:00Z"), "UTC"), at("2026-10-15T09:00:00Z"));
+  assert.deepEqual(nextOccurrence("0 9 15 * 5", at("2026-10-15T09:00:00Z"), at("2026-10-15T09:00:00Z"), "UTC"), at("2026-10-16T09:00:00Z"));
+});
+
+test("a day of month with a step is unrestricted, so both fields must match", () => {
+  // Mondays on odd days: 19 October, not Thursday the 15th
+  assert.deepEqual(nextOccurrence("0 9 */2 * 1", at("2026-10-14T10:00:00Z"), at("2026-10-14T10:00:00Z"), "UTC"), at("2026-10-19T09:00:00Z"));
+});
+
+test("invalid rules", () => {
+  assert.equal(isValidRule("hourly"), false);
+  assert.equal(isValidRule("60 * * * *"), false);
+  assert.equal(isValidRule("* * * *"), false);
+  assert.equal(isValidRule("0 9 * * 1-5"), true);
+});
+
+test("repeat_until ends the series", () => {
+  const dueAt = at("2026-10-14T09:00:00Z");
+  const now = at("2026-10-14T09:00:30Z");
+  assert.deepEqual(advanceRecurrence("daily", dueAt, now, "UTC", at("2026-10-15T23:59:59Z")), { dueAt: at("2026-10-15T09:00:00Z"), remainingCount: undefined });
+  assert.equal(advanceRecurrence("daily", dueAt, now, "UTC", at("2026-10-15T08:59:59Z")), null);
+});
+
+test("repeat_count counts the deliveries left", () => {
+  const dueAt = at("2026-10-14T09:00:00Z");
+  const now = at("2026-10-14T09:00:30Z");
+  assert.deepEqual(advanceRecurrence("daily", dueAt, now, "UTC", null, 2), { dueAt: at("2026-10-15T09:00:00Z"), remainingCount: 1 });
+  assert.equal(advanceRecurrence("daily", dueAt, now, "UTC", null, 1), null);
+});
@@ -0,0 +1,62 @@
+import { test, before, after } from "node:test";
+import * as assert from "node:assert/strict";
+import * as http from "http";
+import type { AddressInfo } from "net";
+
+// --- Speech to Text Tests ---
+// A local stub stands in for the STT_BASE_URL endpoint. Each test sets the status it answers
+// with and checks whether a failure pauses transcription for the following messages.
+
+let status = 200;
+let hits = 0;
+
+const server = http.createServer((req, res) => {
+  hits++;
+  req.resume();
+  req.on("end", () => {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    if (status !== 200) return res.end(JSON.stringify({ error: { message: `status ${status}` } }));
+    res.end(JSON.stringify({ text: "  бублик, привет  " }));
+  });
+});
+
+let speech: typeof import("../src/speech");
+
+before(async () => {
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  process.env.STT_BASE_URL = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+  speech = require("../src/speech");
+});
+
+after(() => {
+  server.close();
+});
+
+const transcribe = () => speech.transcribeAudio(1, Buffer.from("OggS"), "voice.ogg");
+
+test("the transcript comes back trimmed", async () => {
+  hits = 0;
+  status = 200;
+  assert.equal(await transcribe(), "бублик, привет");
+  assert.equal(hits, 1);
+});
+
+test("a rejected file doesn't pause transcription", async () => {
+  hits = 0;
+  status = 400;
+  assert.equal(await transcribe(), null);
+
+  status = 200;
+  assert.equal(await transcribe(), "бублик, привет");
+  assert.equal(hits, 2);
+});
+
+test("an unavailable endpoint pauses transcription", async () => {
+  hits = 0;
+  status = 503;
+  assert.equal(await transcribe(), null);
+
+  status = 200;
+  assert.equal(await transcribe(), null);
+  assert.equal(hits, 1);
+});
@@ -0,0 +1,50 @@
+import { test } from "node:test";
+import * as assert from "node:assert/strict";
+import { parseReminderTime } from "../src/time";
+
+// --- Reminder Time Tests ---
+// "now" is fixed at 10:00 in Moscow (07:00 UTC) on Wednesday, 14 October 2026.
+
+const MOSCOW = "Europe/Moscow";
+const NOW = new Date("2026-10-14T07:00:00Z");
+
+function parse(input: string, timeZone: string = MOSCOW) {
+  return parseReminderTime(input, timeZone, NOW);
+}
+
+test("relative times count from now", () => {
+  assert.deepEqual(parse("через 2 часа полить цветы"), { dueAt: new Date("2026-10-14T09:00:00Z"), text: "полить цветы" });
+  assert.deepEqual(parse("через полчаса, выключить плиту"), { dueAt: new Date("2026-10-14T07:30:00Z"), text: "выключить плиту" });
+  assert.deepEqual(parse("in 30 minutes call mom"), { dueAt: new Date("2026-10-14T07:30:00Z"), text: "call mom" });
+  assert.deepEqual(parse("15m чай"), { dueAt: new Date("2026-10-14T07:15:00Z"), text: "чай" });
+  assert.deepEqual(parse("через час созвон"), { dueAt: new Date("2026-10-14T08:00:00Z"), text: "созвон" });
+});
+
+test("clock times are read in the given timezone", () => {
+  assert.deepEqual(parse("в 18:30 ужин"), { dueAt: new Date("2026-10-14T15:30:00Z"), text: "ужин" });
+  assert.deepEqual(parse("в 18:30 ужин", "UTC"), { dueAt: new Date("2026-10-14T18:30:00Z"), text: "ужин" });
+  assert.deepEqual(parse("at 9pm walk", "America/New_York"), { dueAt: new Date("2026-10-15T01:00:00Z"), text: "walk" });
+  assert.deepEqual(parse("в 7 вечера спорт"), { dueAt: new Date("2026-10-14T16:00:00Z"), text: "спорт" });
+});
+
+test("a clock time that already passed today means tomorrow", () => {
+  assert.deepEqual(parse("в 9:00 зарядка"), { dueAt: new Date("2026-10-15T06:00:00Z"), text: "зарядка" });
+});
+
+test("named days", () => {
+  assert.deepEqual(parse("завтра в 9:00 позвонить"), { dueAt: new Date("2026-10-15T06:00:00Z"), text: "позвонить" });
+  assert.deepEqual(parse("завтра купить хлеб"), { dueAt: new Date("2026-10-15T06:00:00Z"), text: "купить хлеб" });
+  assert.deepEqual(parse("послезавтра в 12 обед"), { dueAt: new Date("2026-10-16T09:00:00Z"), text: "обед" });
+  assert.deepEqual(parse("сегодня в 18:30 ужин"), { dueAt: new Date("2026-10-14T15:30:00Z"), text: "ужин" });
+  assert.deepEqual(parse("tomorrow at 9am standup"), { dueAt: new Date("2026-10-15T06:00:00Z"), text: "standup" });
+});
+
+test("a time today that has passed is reported, not moved", () => {
+  assert.deepEqual(parse("сегодня в 9:00 зарядка"), { dueAt: new Date("2026-10-14T06:00:00Z"), text: "зарядка", passed: true });
+});
+
+test("anything else is not a time", () => {
+  assert.equal(parse("купить хлеб"), null);
+  assert.equal(parse("через много лет"), null);
+  assert.equal(parse("в 25:00 никогда"), null);
+});